@@ -0,0 +1,247 @@
+import crypto from "crypto";
+import fs from "fs";
+import { join } from "path";
+import { IncomingMessage, ServerResponse } from "http";
+import { isCompilationRunning, readSchedulerState, triggerCompilation } from "./cron.js";
+import { getSnapshot, rollbackTo } from "./snapshots.js";
+import { sourceLocation } from "./local.js";
+import { getLastCompileReport, getSourceHealth } from "./status.js";
+import { setSecurityHeaders } from "./headers.js";
+import { logger } from "./logger.js";
+
+const log = logger.child({ component: "admin" });
+
+const CONFIG_PATH = join(process.cwd(), "config.json");
+
+/**
+ * Shortest admin token accepted; shorter tokens leave the API disabled
+ */
+const MIN_TOKEN_LENGTH = 16;
+
+/**
+ * Number of rebuild jobs remembered for `/admin/status`
+ */
+const MAX_JOBS = 20;
+
+/**
+ * Route for looking up a single rebuild job
+ */
+const JOB_ROUTE = /^\/admin\/jobs\/([0-9a-f-]{36})$/;
+
+/**
+ * A rebuild requested through the admin API
+ */
+export interface AdminJob {
+  id: string;
+  status: "running" | "succeeded" | "failed";
+  requestedAt: string;
+  /** Publish even if a build-level guardrail trips */
+  force: boolean;
+  startedAt?: string;
+  finishedAt?: string;
+  durationMs?: number;
+  error?: string;
+}
+
+/**
+ * SHA-256 of the admin token, or null while the admin API is disabled
+ */
+let tokenDigest: Buffer | null = null;
+
+/**
+ * Recent jobs in the order they were requested
+ */
+const jobs = new Map<string, AdminJob>();
+
+/**
+ * Enable the admin API if `ADMIN_TOKEN` is set to a long enough token
+ */
+export function initAdminApi(): boolean {
+  const token = process.env.ADMIN_TOKEN?.trim();
+  tokenDigest = null;
+
+  if (!token) {
+    return false;
+  }
+  if (token.length < MIN_TOKEN_LENGTH) {
+    log.error(`ADMIN_TOKEN must be at least ${MIN_TOKEN_LENGTH} characters long; the admin API stays disabled`);
+    return false;
+  }
+
+  tokenDigest = crypto.createHash("sha256").update(token).digest();
+  return true;
+}
+
+/**
+ * Check the bearer token in constant time
+ */
+function isAuthorized(req: IncomingMessage): boolean {
+  const match = /^Bearer\s+(\S+)\s*$/i.exec(req.headers.authorization ?? "");
+  if (!match || !tokenDigest) {
+    return false;
+  }
+  const digest = crypto.createHash("sha256").update(match[1]).digest();
+  return crypto.timingSafeEqual(digest, tokenDigest);
+}
+
+/**
+ * Send a JSON response that is never cached
+ */
+function sendJson(res: ServerResponse, statusCode: number, body: unknown): void {
+  res.statusCode = statusCode;
+  setSecurityHeaders(res);
+  res.setHeader("Content-Type", "application/json");
+  res.setHeader("Cache-Control", "no-store");
+  res.end(JSON.stringify(body, null, 2));
+}
+
+/**
+ * Reject a method the route does not support
+ */
+function methodNotAllowed(res: ServerResponse, allowed: string): void {
+  res.setHeader("Allow", allowed);
+  sendJson(res, 405, { error: "Method Not Allowed" });
+}
+
+/**
+ * Start a rebuild, or report the one already running.
+ * A forced rebuild cannot follow a compile that was started without `force`, so it is refused instead.
+ */
+function startRebuild(res: ServerResponse, force: boolean): void {
+  const running = [...jobs.values()].find(job => job.status === "running");
+  if (force && isCompilationRunning() && !running?.force) {
+    sendJson(res, 409, { error: "A compile without force is running; try again when it has finished" });
+    return;
+  }
+  if (running) {
+    sendJson(res, 202, { job: running, alreadyRunning: true });
+    return;
+  }
+
+  const job: AdminJob = { id: crypto.randomUUID(), status: "running", requestedAt: new Date().toISOString(), force };
+  jobs.set(job.id, job);
+  for (const id of jobs.keys()) {
+    if (jobs.size <= MAX_JOBS) {
+      break;
+    }
+    jobs.delete(id);
+  }
+
+  log.info("Admin rebuild requested", { job: job.id, force });
+  triggerCompilation("admin", { force }).then(result => {
+    job.status = result.success ? "succeeded" : "failed";
+    job.startedAt = result.startedAt;
+    job.finishedAt = result.finishedAt;
+    job.durationMs = result.durationMs;
+    job.error = result.error;
+  });
+
+  res.setHeader("Location", `/admin/jobs/${job.id}`);
+  sendJson(res, 202, { job, alreadyRunning: false });
+}
+
+/**
+ * Re-publish an earlier snapshot, unless a compile is running and would overwrite it
+ */
+function rollback(res: ServerResponse, version: string): void {
+  if (isCompilationRunning()) {
+    sendJson(res, 409, { error: "A compile is running; try again when it has finished" });
+    return;
+  }
+  if (!getSnapshot(version)) {
+    sendJson(res, 404, { error: `Unknown version: ${version}` });
+    return;
+  }
+
+  log.info(`Admin rollback requested to version ${version}`);
+  const snapshot = rollbackTo(version);
+  sendJson(res, 200, { current: snapshot.id, snapshot });
+}
+
+/**
+ * Every configured source with its health from compiles in this process
+ */
+function listSources(): unknown[] {
+  const config = JSON.parse(fs.readFileSync(CONFIG_PATH, "utf-8"));
+  return (config.sources ?? []).map((source: any) => {
+    // Compile reports tell the members of one archive apart by `#<member>`
+    const url = source.member ? `${sourceLocation(source)}#${source.member}` : sourceLocation(source);
+    return {
+      name: source.name,
+      url,
+      type: source.type,
+      enabled: source.enabled !== false,
+      required: source.required === true,
+      tags: source.tags ?? [],
+      category: source.category ?? null,
+      license: source.license ?? null,
+      homepage: source.homepage ?? null,
+      health: getSourceHealth(url)
+    };
+  });
+}
+
+/**
+ * Handle a request under `/admin/`; returns false if it is not an admin request or the API is disabled
+ */
+export function handleAdminRequest(req: IncomingMessage, res: ServerResponse, url: URL): boolean {
+  if (!tokenDigest || (url.pathname !== "/admin" && !url.pathname.startsWith("/admin/"))) {
+    return false;
+  }
+
+  // The request body is never used
+  req.resume();
+
+  if (!isAuthorized(req)) {
+    res.setHeader("WWW-Authenticate", 'Bearer realm="admin"');
+    sendJson(res, 401, { error: "Unauthorized" });
+    return true;
+  }
+
+  if (url.pathname === "/admin/rebuild") {
+    if (req.method !== "POST") {
+      methodNotAllowed(res, "POST");
+      return true;
+    }
+    startRebuild(res, url.searchParams.get("force") === "1" || url.searchParams.get("force") === "true");
+    return true;
+  }
+
+  if (url.pathname === "/admin/rollback") {
+    if (req.method !== "POST") {
+      methodNotAllowed(res, "POST");
+      return true;
+    }
+    rollback(res, url.searchParams.get("version") ?? "");
+    return true;
+  }
+
+  if (req.method !== "GET") {
+    methodNotAllowed(res, "GET");
+    return true;
+  }
+
+  if (url.pathname === "/admin/status") {
+    sendJson(res, 200, {
+      scheduler: readSchedulerState(),
+      lastCompile: getLastCompileReport(),
+      jobs: [...jobs.values()].reverse()
+    });
+    return true;
+  }
+
+  if (url.pathname === "/admin/sources") {
+    sendJson(res, 200, { sources: listSources() });
+    return true;
+  }
+
+  const jobMatch = JOB_ROUTE.exec(url.pathname);
+  const job = jobMatch ? jobs.get(jobMatch[1]) : undefined;
+  if (job) {
+    sendJson(res, 200, { job });
+    return true;
+  }
+
+  sendJson(res, 404, { error: "Not Found" });
+  return true;
+}
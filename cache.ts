@@ -0,0 +1,106 @@
+import fs from "fs";
+import { join } from "path";
+import crypto from "crypto";
+import { securePath, secureWriteFile } from "./files.js";
+import { logger } from "./logger.js";
+
+const log = logger.child({ component: "cache" });
+
+/**
+ * Directory holding the last good copy of every source, keyed by URL
+ */
+const CACHE_DIR = join(process.cwd(), "cache");
+
+/**
+ * Metadata stored next to each cached source body
+ */
+export interface SourceCacheMeta {
+  url: string;
+  fetchedAt: string;
+  etag?: string;
+  lastModified?: string;
+}
+
+/**
+ * HTTP validators used for conditional requests
+ */
+export interface CacheValidators {
+  etag?: string | null;
+  lastModified?: string | null;
+}
+
+/**
+ * A cached source body with its metadata
+ */
+export interface SourceCacheEntry extends SourceCacheMeta {
+  body: string;
+}
+
+/**
+ * Build the conditional request headers for a cached source
+ */
+export function conditionalHeaders(entry: SourceCacheEntry | null): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (entry?.etag) {
+    headers["If-None-Match"] = entry.etag;
+  }
+  if (entry?.lastModified) {
+    headers["If-Modified-Since"] = entry.lastModified;
+  }
+  return headers;
+}
+
+/**
+ * Build the cache file paths for a source URL
+ */
+function cachePaths(url: string): { body: string; meta: string } {
+  const key = crypto.createHash("sha256").update(url).digest("hex");
+  return {
+    body: securePath(join(CACHE_DIR, `${key}.txt`)),
+    meta: securePath(join(CACHE_DIR, `${key}.json`))
+  };
+}
+
+/**
+ * Read the last good copy of a source, or null if it was never cached
+ */
+export function readSourceCache(url: string): SourceCacheEntry | null {
+  try {
+    const paths = cachePaths(url);
+    if (!fs.existsSync(paths.body) || !fs.existsSync(paths.meta)) {
+      return null;
+    }
+
+    const meta = JSON.parse(fs.readFileSync(paths.meta, "utf-8")) as SourceCacheMeta;
+    if (meta.url !== url) {
+      return null;
+    }
+
+    return { ...meta, body: fs.readFileSync(paths.body, "utf-8") };
+  } catch (error) {
+    log.error(`Failed to read cache for ${url}`, { error });
+    return null;
+  }
+}
+
+/**
+ * Store a freshly fetched source body as its last good copy
+ */
+export function writeSourceCache(url: string, body: string, validators: CacheValidators = {}): void {
+  try {
+    fs.mkdirSync(securePath(CACHE_DIR), { mode: 0o755, recursive: true });
+    const paths = cachePaths(url);
+    const meta: SourceCacheMeta = {
+      url,
+      fetchedAt: new Date().toISOString(),
+      etag: validators.etag ?? undefined,
+      lastModified: validators.lastModified ?? undefined
+    };
+
+    secureWriteFile(paths.body, body);
+    secureWriteFile(paths.meta, JSON.stringify(meta, null, 2));
+  } catch (error) {
+    // A cache write failure must never fail the compile
+    log.error(`Failed to write cache for ${url}`, { error });
+  }
+}
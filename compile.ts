@@ -1,14 +1,32 @@
+import crypto from "crypto";
 import fs from "fs";
-import { join } from "path";
+import { dirname, join } from "path";
 import { format } from "date-fns";
-import compile, { IConfiguration, Transformation } from "@adguard/hostlist-compiler";
-import path from "path";
-import crypto from "crypto";
+import type { Transformation } from "@adguard/hostlist-compiler";
 import * as Ajv from 'ajv';
 import { ErrorObject } from "ajv";
 import * as addFormats from 'ajv-formats';
-import fetch, { Response } from "node-fetch";
-import { AbortController } from "abort-controller";
+import { DEFAULT_RETRIES, DEFAULT_RETRY_DELAY, FETCH_TIMEOUT, fetchAndRead } from "./fetcher.js";
+import { TRANSFORMATIONS, applyTransformations, deduplicateDomains, isComment, plainBlockedDomains, validateRules } from "./transformations.js";
+import { SOURCE_TYPES, SourceType, parseSource } from "./parsers.js";
+import { securePath, secureWriteFile } from "./files.js";
+import { runPool } from "./pool.js";
+import { isLocalLocation, readLocalSource, sourceLocation } from "./local.js";
+import { DEFAULT_MAX_SOURCE_SIZE, decodeSource } from "./decompress.js";
+import { EXACT_MATCH_FORMATS, OUTPUT_FORMATS, OutputConfig, renderOutput, resolveListFiles, resolveOutputFiles } from "./formats.js";
+import { CompiledFilters, FilterPatterns, FilterResult, applyFilters, loadFilters } from "./filters.js";
+import { conditionalHeaders, readSourceCache, writeSourceCache } from "./cache.js";
+import { publishRelease } from "./store.js";
+import { DEFAULT_SNAPSHOT_RETENTION, createSnapshot, rollbackTo } from "./snapshots.js";
+import { CompileReport, GuardrailReport, RejectionCount, SourceReport, StageCount, recordCompileReport } from "./status.js";
+import { recordCompileMetrics } from "./metrics.js";
+import { DEFAULT_HISTORY_RETENTION, readLastPublished, writeHistoryRecord } from "./history.js";
+import { DEFAULT_GUARDRAILS, GuardrailSettings, checkBuild, checkSourceContent, resolveGuardrails } from "./guardrails.js";
+import { flushLogs, logger, withLogContext } from "./logger.js";
+
+export { fetchWithTimeout } from "./fetcher.js";
+
+const log = logger.child({ component: "compile" });
 
 /**
  * Path to the configuration file
@@ -16,14 +34,52 @@ import { AbortController } from "abort-controller";
 const CONFIG_PATH = join(process.cwd(), "config.json");
 
 /**
- * Path to the output blocklist file
+ * Default number of optional source failures tolerated before the compile is aborted
+ */
+const DEFAULT_MAX_SOURCE_FAILURES = 5;
+
+/**
+ * Default number of sources fetched at the same time
+ */
+const DEFAULT_CONCURRENCY = 8;
+
+/**
+ * Default number of sources fetched at the same time from a single host
  */
-const OUTPUT_PATH = join(process.cwd(), "adguard-blocklist.txt");
+const DEFAULT_PER_HOST_CONCURRENCY = 2;
 
 /**
- * Default fetch timeout in milliseconds - reduced for fail-fast behavior
+ * Categories a source can be filed under
  */
-const FETCH_TIMEOUT = 10000; // 10 seconds instead of 30
+const SOURCE_CATEGORIES = ["ads", "malware", "tracking"];
+
+/**
+ * Fetch settings accepted both globally and per source
+ */
+const fetchSettingsSchema = {
+  timeout: { type: "integer", minimum: 1000, description: `Fetch timeout in milliseconds (default ${FETCH_TIMEOUT})` },
+  retries: { type: "integer", minimum: 0, maximum: 10, description: `Retries after a failed attempt (default ${DEFAULT_RETRIES})` },
+  retryDelay: { type: "integer", minimum: 0, description: `Base retry delay in milliseconds (default ${DEFAULT_RETRY_DELAY})` },
+  maxSize: { type: "integer", minimum: 1024, description: `Largest source size in bytes after decompression (default ${DEFAULT_MAX_SOURCE_SIZE})` }
+};
+
+/**
+ * Exclusion and inclusion settings accepted both globally and per source
+ */
+const filterSettingsSchema = {
+  exclusions: { type: "array", items: { type: "string" }, description: "Domains, wildcards or /regex/ patterns to remove" },
+  exclusions_sources: {
+    type: "array",
+    items: { type: "string", pattern: "^(https://|[^:]+$)" },
+    description: "Local files or HTTPS URLs with exclusion patterns"
+  },
+  inclusions: { type: "array", items: { type: "string" }, description: "Only keep rules matching these patterns" },
+  inclusions_sources: {
+    type: "array",
+    items: { type: "string", pattern: "^(https://|[^:]+$)" },
+    description: "Local files or HTTPS URLs with inclusion patterns"
+  }
+};
 
 /**
  * Schema for config.json using JSON Schema syntax
@@ -44,17 +100,132 @@ const configJsonSchema = {
         type: "object",
         properties: {
           name: { type: "string" },
-          type: { type: "string", enum: ["adblock", "hosts"] },
-          source: { type: "string", format: "uri", pattern: "^https://.*" },
+          type: { type: "string", enum: SOURCE_TYPES },
+          source: {
+            type: "string",
+            minLength: 1,
+            pattern: "^(https://|file:///|[^:]+$)",
+            description: "HTTPS URL, file:// URL, or local path or glob relative to the working directory"
+          },
+          rules: { type: "array", items: { type: "string" }, description: "Rules written inline, instead of source" },
+          member: { type: "string", minLength: 1, description: "File to read when the source is a zip or tar archive" },
+          field: {
+            anyOf: [{ type: "string", minLength: 1 }, { type: "integer", minimum: 0 }],
+            description: "CSV column (header name or 0-based index), JSON property path or XML element holding the domains"
+          },
+          delimiter: { type: "string", minLength: 1, maxLength: 1, description: "CSV field separator (default ,)" },
+          enabled: { type: "boolean", description: "Set to false to keep the source in config.json without compiling it (default true)" },
+          required: { type: "boolean", description: "Abort the compile if this source fails (default false)" },
+          tags: {
+            type: "array",
+            items: { type: "string", pattern: "^[a-z0-9][a-z0-9-]*$" },
+            uniqueItems: true,
+            description: "Tags for selecting sources with --tags or SOURCE_TAGS"
+          },
+          category: { type: "string", enum: SOURCE_CATEGORIES, description: "What the source blocks" },
+          license: { type: "string", description: "License of the upstream list, credited in the header" },
+          homepage: { type: "string", format: "uri", description: "Homepage of the upstream list" },
+          notes: { type: "string", description: "Free-form notes, e.g. why a source is disabled" },
+          ...fetchSettingsSchema,
+          ...filterSettingsSchema,
+          transformations: {
+            type: "array",
+            items: { type: "string", enum: TRANSFORMATIONS },
+            description: "Transformations applied to this source before the global ones"
+          }
         },
-        required: ["name", "type", "source"], 
+        required: ["name", "type"],
+        oneOf: [{ required: ["source"] }, { required: ["rules"] }],
         additionalProperties: false
       }
     },
+    localSourcesDir: {
+      type: "string",
+      minLength: 1,
+      description: "Directory local sources must be in, relative to the working directory (default: the working directory)"
+    },
+    guardrails: {
+      type: "object",
+      properties: {
+        maxRuleDropPercent: { type: "number", minimum: 0, maximum: 100, description: `Largest drop in total rules versus the previous build, in percent (default ${DEFAULT_GUARDRAILS.maxRuleDropPercent})` },
+        maxRuleGrowthPercent: { type: "number", minimum: 0, description: `Largest growth in total rules versus the previous build, in percent (default ${DEFAULT_GUARDRAILS.maxRuleGrowthPercent})` },
+        maxSourceDropPercent: { type: "number", minimum: 0, maximum: 100, description: `Largest drop in any source's rules, in percent (default ${DEFAULT_GUARDRAILS.maxSourceDropPercent})` },
+        minValidLineRatio: { type: "number", minimum: 0, maximum: 1, description: `Smallest share of a source's entries that must be valid rules (default ${DEFAULT_GUARDRAILS.minValidLineRatio})` },
+        detectHtml: { type: "boolean", description: "Reject sources that return an HTML page (default true)" }
+      },
+      additionalProperties: false
+    },
+    snapshotRetention: {
+      type: "integer",
+      minimum: 1,
+      description: `Number of published builds kept as snapshots (default ${DEFAULT_SNAPSHOT_RETENTION})`
+    },
+    historyRetention: {
+      type: "integer",
+      minimum: 1,
+      description: `Number of compile history records kept (default ${DEFAULT_HISTORY_RETENTION})`
+    },
+    maxSourceFailures: {
+      type: "integer",
+      minimum: 0,
+      description: `Number of optional source failures tolerated before aborting (default ${DEFAULT_MAX_SOURCE_FAILURES})`
+    },
+    ...fetchSettingsSchema,
+    ...filterSettingsSchema,
+    concurrency: {
+      type: "integer",
+      minimum: 1,
+      description: `Maximum number of sources fetched at once (default ${DEFAULT_CONCURRENCY})`
+    },
+    perHostConcurrency: {
+      type: "integer",
+      minimum: 1,
+      description: `Maximum number of sources fetched at once from one host (default ${DEFAULT_PER_HOST_CONCURRENCY})`
+    },
+    outputs: {
+      type: "array",
+      minItems: 1,
+      items: {
+        type: "object",
+        properties: {
+          format: { type: "string", enum: OUTPUT_FORMATS },
+          path: { type: "string", minLength: 1, description: "Output file path relative to the working directory" }
+        },
+        required: ["format"],
+        additionalProperties: false
+      },
+      description: "Output files to write (default: the AdGuard format only)"
+    },
+    lists: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          slug: { type: "string", pattern: "^[a-z0-9][a-z0-9-]*$", maxLength: 64, description: "Served at /lists/<slug>.txt" },
+          name: { type: "string" },
+          description: { type: "string" },
+          sources: {
+            type: "array",
+            minItems: 1,
+            items: { type: "string" },
+            description: "Names or URLs of shared sources to include (default: all)"
+          },
+          transformations: {
+            type: "array",
+            items: { type: "string", enum: TRANSFORMATIONS }
+          },
+          ...filterSettingsSchema
+        },
+        required: ["slug", "name"],
+        additionalProperties: false
+      },
+      description: "Additional named lists built from subsets of the shared sources"
+    },
     transformations: {
       type: "array",
       items: { 
         type: "string",
+        enum: TRANSFORMATIONS
       },
       description: "Global transformations applied after source-specific ones"
     }
@@ -63,22 +234,112 @@ const configJsonSchema = {
   additionalProperties: false 
 };
 
+/**
+ * A single source entry in config.json
+ */
+interface SourceConfig extends FilterPatterns {
+  name: string;
+  type: SourceType;
+  /** URL or local path; `inline:<name>` for inline sources once the config is loaded */
+  source: string;
+  rules?: string[];
+  /** File to read from a zip or tar archive */
+  member?: string;
+  /** CSV column, JSON property path or XML element holding the domains */
+  field?: string | number;
+  delimiter?: string;
+  enabled?: boolean;
+  required?: boolean;
+  tags?: string[];
+  category?: "ads" | "malware" | "tracking";
+  license?: string;
+  homepage?: string;
+  notes?: string;
+  timeout?: number;
+  retries?: number;
+  retryDelay?: number;
+  maxSize?: number;
+  transformations?: Transformation[];
+}
+
+/**
+ * A source that failed during compilation
+ */
+interface SourceFailure {
+  name: string;
+  url: string;
+  reason: string;
+  cachedAt?: string;
+}
+
+/**
+ * Rules removed by one exclusion pattern, or by missing inclusions when `pattern` is null
+ */
+interface FilterReportEntry {
+  scope: string;
+  pattern: string | null;
+  removed: number;
+}
+
+/**
+ * A named list built from a subset of the shared sources
+ */
+interface ListConfig extends FilterPatterns {
+  slug: string;
+  name: string;
+  description?: string;
+  sources?: string[];
+  transformations?: Transformation[];
+}
+
+/**
+ * Rules collected from one source during a run
+ */
+interface CollectedSource {
+  source: SourceConfig;
+  rules: string[];
+  filterReport: FilterReportEntry[];
+}
+
+/**
+ * Result of running the list-level pipeline
+ */
+interface BuiltList {
+  rules: string[];
+  /** The same rules without removing subdomains a parent rule covers, for exact-match formats */
+  exactRules: string[];
+  ruleCount: number;
+  deduplicatedRemoved: number;
+  filterReport: FilterReportEntry[];
+  /** Lines removed by each list-level step */
+  stages: StageCount[];
+}
+
 /**
  * Schema for validating config.json
  */
-interface ConfigSchema {
+interface ConfigSchema extends FilterPatterns {
   name: string;
   description: string;
   homepage?: string;
   license?: string;
   version?: string;
   updateInterval?: number;
-  sources: {
-    name: string;
-    type: "adblock" | "hosts";
-    source: string;
-  }[];
-  transformations?: string[]; 
+  sources: SourceConfig[];
+  localSourcesDir?: string;
+  maxSourceFailures?: number;
+  historyRetention?: number;
+  snapshotRetention?: number;
+  guardrails?: GuardrailSettings;
+  timeout?: number;
+  retries?: number;
+  retryDelay?: number;
+  maxSize?: number;
+  concurrency?: number;
+  perHostConcurrency?: number;
+  outputs?: OutputConfig[];
+  lists?: ListConfig[];
+  transformations?: Transformation[];
 }
 
 /**
@@ -102,9 +363,23 @@ function validateConfig(config: any): config is ConfigSchema {
   
   const validConfig = config as unknown as ConfigSchema;
 
+  const slugs = new Set<string>();
+  for (const list of validConfig.lists ?? []) {
+    if (slugs.has(list.slug)) {
+      throw new Error(`Duplicate list slug "${list.slug}"`);
+    }
+    slugs.add(list.slug);
+    
+    for (const reference of list.sources ?? []) {
+      if (!validConfig.sources.some(source => source.name === reference || source.source === reference)) {
+        throw new Error(`List "${list.slug}" references unknown source "${reference}"`);
+      }
+    }
+  }
+
   for (const source of validConfig.sources) {
-    if (!source.source.startsWith('https://')) {
-       throw new Error(`Invalid source URL in source "${source.name}": "${source.source}". Only HTTPS URLs are allowed.`);
+    if (source.source !== undefined && !source.source.startsWith('https://') && !isLocalLocation(source.source)) {
+       throw new Error(`Invalid source URL in source "${source.name}": "${source.source}". Only HTTPS URLs, file:// URLs and local paths are allowed.`);
     }
   }
 
@@ -112,282 +387,785 @@ function validateConfig(config: any): config is ConfigSchema {
 }
 
 /**
- * Secure the path to prevent path traversal attacks
+ * Host of a source URL, used to limit concurrent requests per host
  */
-function securePath(filePath: string): string {
-  const normalizedPath = path.normalize(filePath);
-  const resolvedPath = path.resolve(normalizedPath);
-  const cwdPath = path.resolve(process.cwd());
-  
-  if (!resolvedPath.startsWith(cwdPath)) {
-    throw new Error("Path traversal attempt detected");
+function sourceHost(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
   }
-  
-  return resolvedPath;
 }
 
 /**
- * Safely write to a file with proper permissions
+ * Split source content into trimmed, non-empty lines
  */
-function secureWriteFile(filePath: string, data: string): void {
-  const securedPath = securePath(filePath);
-  const tempFileName = `${securedPath}.${crypto.randomBytes(8).toString('hex')}.tmp`;
+function splitLines(content: string): string[] {
+  const lines: string[] = [];
+  for (const line of content.split('\n')) {
+    const trimmed = line.trim();
+    if (trimmed.length > 0) {
+      lines.push(trimmed);
+    }
+  }
+  return lines;
+}
+
+/**
+ * Raw content of a source and where it came from
+ */
+interface FetchedSource {
+  content: string;
+  fromCache: boolean;
+  /** Written inline or read from the local disk, so there is nothing to cache */
+  local?: boolean;
+  etag?: string | null;
+  lastModified?: string | null;
+}
+
+/**
+ * Cache key of a source: its URL, plus the archive member when one is picked out
+ */
+function sourceCacheKey(source: SourceConfig): string {
+  return source.member ? `${source.source}#${source.member}` : source.source;
+}
+
+/**
+ * Fetch the raw content of a source, using the cache for conditional requests.
+ * Inline and local sources are read directly, also for offline compiles.
+ */
+async function fetchSourceContent(source: SourceConfig, config: ConfigSchema, offline: boolean): Promise<FetchedSource> {
+  if (source.rules) {
+    return { content: source.rules.join('\n'), fromCache: false, local: true };
+  }
+  if (isLocalLocation(source.source)) {
+    const content = await readLocalSource(source.source, config.localSourcesDir ?? '.', {
+      member: source.member,
+      maxSize: source.maxSize ?? config.maxSize
+    });
+    log.debug(`Read ${content.length} characters from local source ${source.source}`);
+    return { content, fromCache: false, local: true };
+  }
+  
+  const cached = readSourceCache(sourceCacheKey(source));
+  
+  if (offline) {
+    if (!cached) {
+      throw new Error(`No cached copy of ${source.source} available for an offline compile`);
+    }
+    log.debug(`Offline: using cached copy of ${source.name} from ${cached.fetchedAt}`);
+    return { content: cached.body, fromCache: true };
+  }
   
-  fs.writeFileSync(tempFileName, data, { 
-    encoding: 'utf-8',
-    mode: 0o644,
-    flag: 'wx'
+  const fetchStart = Date.now();
+  // Compressed feeds and archives are decoded as they stream in, under the fetch timeout
+  const { response, body: content } = await fetchAndRead(source.source, async response => {
+    if (response.status === 304) {
+      return null;
+    }
+    return decodeSource(response.body, {
+      location: source.source,
+      contentType: response.headers.get('content-type'),
+      member: source.member,
+      maxSize: source.maxSize ?? config.maxSize
+    });
+  }, source.timeout ?? config.timeout ?? FETCH_TIMEOUT, {
+    headers: conditionalHeaders(cached),
+    retries: source.retries ?? config.retries,
+    retryDelay: source.retryDelay ?? config.retryDelay
   });
   
-  fs.renameSync(tempFileName, securedPath);
+  if (content === null) {
+    if (!cached) {
+      throw new Error(`Received 304 Not Modified for ${source.source} without a cached copy`);
+    }
+    log.debug(`${source.name} not modified since ${cached.fetchedAt}, using cached copy (${Date.now() - fetchStart}ms)`);
+    return { content: cached.body, fromCache: true };
+  }
+  
+  const fetchTime = Date.now() - fetchStart;
+  
+  if (!content || content.trim().length === 0) {
+    throw new Error(`Empty or invalid response from ${source.source}`);
+  }
+  
+  log.debug(`Successfully fetched ${source.name} in ${fetchTime}ms`);
+  log.debug(`Content length: ${content.length} characters`);
+  return {
+    content,
+    fromCache: false,
+    etag: response.headers.get('etag'),
+    lastModified: response.headers.get('last-modified')
+  };
 }
 
 /**
- * Fetch with timeout and TLS validation
+ * Transformations to run now, leaving out Compress: it is the domain deduplication every list
+ * ends with, and running it before exclusions and inclusions would drop subdomain rules whose
+ * parent rule is then excluded
  */
-export async function fetchWithTimeout(url: string, timeoutMs = FETCH_TIMEOUT): Promise<Response> {
-  if (!url.startsWith('https://')) {
-    throw new Error("Only HTTPS URLs are allowed");
-  }
+function deferCompress(transformations: Transformation[] | undefined): Transformation[] | undefined {
+  return transformations?.filter(transformation => transformation !== "Compress");
+}
+
+/**
+ * Rules parsed from one source's content, with statistics for the compile report
+ */
+interface ProcessedSource {
+  rules: string[];
+  bytes: number;
+  lines: number;
+  stages: StageCount[];
+  rejected: RejectionCount[];
+}
+
+/**
+ * Turn source content into rules using the source's parser and transformations
+ */
+function processSourceContent(source: SourceConfig, content: string, guardrails: Required<GuardrailSettings>): ProcessedSource {
+  log.debug(`Processing lines from ${source.name}...`);
+  const lines = splitLines(content);
   
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => {
-    controller.abort();
-  }, timeoutMs);
+  if (lines.length === 0) {
+    throw new Error(`No valid lines found in ${source.source}`);
+  }
   
+  log.debug(`Processed ${lines.length} lines from ${source.name}`);
+
+  const stages: StageCount[] = [];
+  const parsed = parseSource(source.type, lines, { location: source.source, field: source.field, delimiter: source.delimiter });
+  let sourceRules = parsed.rules;
+  const dropped = Object.entries(parsed.dropped);
+  log.debug(`Parsed ${source.name} as ${source.type}: ${sourceRules.length} rules from ${parsed.entries} entries`
+    + dropped.map(([reason, count]) => `, dropped ${count} ${reason}`).join(''));
+  // Comments and lines expanded into several rules make up the rest of the difference
+  const droppedTotal = dropped.reduce((sum, [, count]) => sum + count, 0);
+  if (source.type !== "adblock") {
+    stages.push({ stage: "parse", removed: lines.length - sourceRules.length - droppedTotal });
+  }
+  for (const [reason, count] of dropped) {
+    stages.push({ stage: `parse: ${reason}`, removed: count });
+  }
+
+  // Reject login pages, error pages and truncated garbage before they can replace good rules
+  const rejection = checkSourceContent(source.type, content, parsed.entries, sourceRules, guardrails);
+  if (rejection) {
+    throw new Error(`Guardrail rejected ${source.source}: ${rejection}`);
+  }
+
+  // Source-specific transformations run before the global ones
+  if (source.transformations && source.transformations.length > 0) {
+    log.debug(`Applying ${source.transformations.length} transformations to ${source.name}...`);
+    sourceRules = applyTransformations(sourceRules, deferCompress(source.transformations), stages);
+  }
+
+  // Every source is validated whatever its transformations; Validate can still drop IP rules and browser modifiers later
+  const validation = validateRules(sourceRules, { allowIp: true, allowRemovableModifiers: true });
+  stages.push({ stage: "validation", removed: sourceRules.length - validation.rules.length });
+  for (const rejection of validation.rejected) {
+    log.debug(`Rejected ${rejection.count} lines from ${source.name} (${rejection.reason}), e.g. ${rejection.samples.join(' ')}`);
+  }
+
+  return { rules: validation.rules, bytes: Buffer.byteLength(content, 'utf-8'), lines: lines.length, stages, rejected: validation.rejected };
+}
+
+/**
+ * Add the outcome of applying filters in one scope to the run's filter report
+ */
+function recordFilterResult(report: FilterReportEntry[], scope: string, result: FilterResult): void {
+  for (const [pattern, removed] of result.excludedBy) {
+    report.push({ scope, pattern, removed });
+    log.debug(`Exclusion "${pattern}" removed ${removed} rules from ${scope}`);
+  }
+  if (result.notIncluded > 0) {
+    report.push({ scope, pattern: null, removed: result.notIncluded });
+    log.debug(`Inclusions removed ${result.notIncluded} non-matching rules from ${scope}`);
+  }
+}
+
+/**
+ * Build the blocklist header lines reporting rules removed by exclusions and inclusions
+ */
+function formatFilterHeader(report: FilterReportEntry[]): string[] {
+  if (report.length === 0) {
+    return [];
+  }
+  const total = report.reduce((sum, entry) => sum + entry.removed, 0);
+  return [
+    `Rules removed by exclusions and inclusions: ${total}`,
+    ...report.map(entry => entry.pattern === null
+      ? `  - [${entry.scope}] not matched by any inclusion: ${entry.removed}`
+      : `  - [${entry.scope}] ${entry.pattern}: ${entry.removed}`)
+  ];
+}
+
+/**
+ * Write an output file atomically and verify what ended up on disk
+ */
+function writeOutputFile(outputPath: string, content: string): void {
   try {
-    const response = await fetch(url, {
-      signal: controller.signal,
-      headers: {
-        "User-Agent": "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/96.0.4664.110 Safari/537.36"
-      }
-    });
+    secureWriteFile(outputPath, content);
     
-    if (!response.ok) {
-      throw new Error(`HTTP error ${response.status}: ${response.statusText} for ${url}`);
+    if (!fs.existsSync(outputPath)) {
+      throw new Error("Output file was not created successfully");
     }
     
-    const contentType = response.headers.get('content-type');
-    if (contentType && !contentType.includes('text/') && !contentType.includes('application/')) {
-      throw new Error(`Invalid content type '${contentType}' for ${url}. Expected text content.`);
+    const expectedSize = Buffer.byteLength(content, 'utf-8');
+    const writtenSize = fs.statSync(outputPath).size;
+    if (writtenSize !== expectedSize) {
+      throw new Error(`File size mismatch: expected ${expectedSize}, got ${writtenSize}`);
+    }
+  } catch (writeError) {
+    log.error(`CRITICAL: Failed to write output file ${outputPath}`, { error: writeError });
+    const errorMessage = writeError instanceof Error ? writeError.message : String(writeError);
+    throw new Error(`Failed to write output file: ${errorMessage}`);
+  }
+}
+
+/**
+ * Describe a source failure for logs and the blocklist header
+ */
+function describeFailure(failure: SourceFailure): string {
+  const fallback = failure.cachedAt ? `using cached copy from ${failure.cachedAt}` : 'no usable cached copy, skipped';
+  return `${failure.name} (${failure.url}): ${failure.reason.replace(/\s+/g, ' ')} [${fallback}]`;
+}
+
+/**
+ * Build the blocklist header lines listing failed sources
+ */
+function formatFailureHeader(failures: SourceFailure[]): string[] {
+  if (failures.length === 0) {
+    return [];
+  }
+  return [
+    `Failed sources: ${failures.length}`,
+    ...failures.map(failure => `  - ${describeFailure(failure)}`)
+  ];
+}
+
+/**
+ * Print a summary of the sources that failed during a run
+ */
+function logFailureSummary(failures: SourceFailure[]): void {
+  if (failures.length === 0) {
+    log.debug('All sources fetched successfully');
+    return;
+  }
+  log.warn(`${failures.length} sources failed during this run`);
+  for (const failure of failures) {
+    log.warn(`  - ${describeFailure(failure)}`, { source: failure.name });
+  }
+}
+
+/**
+ * Resolve the sources a named list uses; references match a source's name or URL
+ */
+function selectSources(list: ListConfig, sources: SourceConfig[]): Set<SourceConfig> {
+  if (!list.sources) {
+    return new Set(sources);
+  }
+  return new Set(sources.filter(source => list.sources!.includes(source.name) || list.sources!.includes(source.source)));
+}
+
+/**
+ * Combine collected sources into one list and run the list-level pipeline over it
+ */
+function buildList(
+  label: string,
+  collected: CollectedSource[],
+  transformations: Transformation[] | undefined,
+  filters: [string, CompiledFilters | null][]
+): BuiltList {
+  const allRules: string[] = [];
+  const filterReport: FilterReportEntry[] = [];
+  
+  for (const entry of collected) {
+    // Add lines in smaller batches to avoid stack overflow
+    const batchSize = 10000;
+    for (let j = 0; j < entry.rules.length; j += batchSize) {
+      const batch = entry.rules.slice(j, j + batchSize);
+      allRules.push(...batch);
+    }
+    filterReport.push(...entry.filterReport);
+  }
+  
+  log.debug(`Total rules collected for "${label}": ${allRules.length}`);
+
+  if (allRules.length === 0) {
+    throw new Error(`CRITICAL: No rules were collected from any sources for "${label}". Cannot proceed.`);
+  }
+
+  // Apply list transformations to the concatenated rules
+  log.debug(`Starting transformations for "${label}"...`);
+  const stages: StageCount[] = [];
+  let processedRules = applyTransformations(allRules, deferCompress(transformations), stages);
+  log.debug(`Transformations removed ${allRules.length - processedRules.length} lines`);
+
+  // Each scope's exclusions and inclusions apply in turn, the top-level ones first
+  const beforeFilters = processedRules.length;
+  for (const [scope, scopeFilters] of filters) {
+    if (!scopeFilters) {
+      continue;
+    }
+    log.debug(`Applying exclusions and inclusions of "${scope}" to "${label}"...`);
+    const filtered = applyFilters(processedRules, scopeFilters);
+    recordFilterResult(filterReport, scope, filtered);
+    processedRules = filtered.rules;
+  }
+  if (filters.some(([, scopeFilters]) => scopeFilters)) {
+    stages.push({ stage: "filters", removed: beforeFilters - processedRules.length });
+  }
+
+  // The list is validated once more whatever its transformations, since steps like InvertAllow rewrite rules
+  const validation = validateRules(processedRules, { allowIp: true, allowRemovableModifiers: true });
+  stages.push({ stage: "validation", removed: processedRules.length - validation.rules.length });
+  for (const rejection of validation.rejected) {
+    log.debug(`Rejected ${rejection.count} lines from "${label}" (${rejection.reason}), e.g. ${rejection.samples.join(' ')}`);
+  }
+  processedRules = validation.rules;
+
+  // Domain-aware deduplication runs after the filters so exclusions can never leave a gap behind
+  log.debug('Removing rules already covered by another rule...');
+  const deduplicated = deduplicateDomains(processedRules);
+  // Exact-match formats still need every subdomain, so they get the rules with only duplicates removed
+  const exactRules = deduplicateDomains(processedRules, true).rules;
+  processedRules = deduplicated.rules;
+  stages.push({ stage: "domain deduplication", removed: deduplicated.removed });
+  log.debug(`Domain-aware deduplication removed ${deduplicated.removed} rules`);
+
+  const ruleCount = processedRules.filter(rule => rule.length > 0 && !isComment(rule)).length;
+
+  if (ruleCount === 0) {
+    throw new Error(`CRITICAL: No valid rules remaining in "${label}" after transformations.`);
+  }
+
+  if (ruleCount < 100) {
+    throw new Error(`CRITICAL: Only ${ruleCount} rules remaining in "${label}", which seems too low.`);
+  }
+
+  log.debug(`Final rule count for "${label}": ${ruleCount}`);
+  return { rules: processedRules, exactRules, ruleCount, deduplicatedRemoved: deduplicated.removed, filterReport, stages };
+}
+
+/**
+ * Build the header lines crediting each source of a list with its license
+ */
+function formatSourceCredits(sources: SourceConfig[]): string[] {
+  return [
+    'Sources:',
+    ...sources.map(source => `  - ${source.name}: ${source.license ?? 'license not specified'}${source.homepage ? ` (${source.homepage})` : ''}`)
+  ];
+}
+
+/**
+ * Build the header lines shared by every output format of a list
+ */
+function buildHeader(
+  config: ConfigSchema,
+  title: string,
+  description: string,
+  sources: SourceConfig[],
+  built: BuiltList,
+  failures: SourceFailure[],
+  startTime: number,
+  timestamp: Date
+): string[] {
+  return [
+    `Title: ${title}`,
+    `Last updated: ${timestamp.toISOString()}`,
+    `Description: ${description}`,
+    config.homepage ? `Homepage: ${config.homepage}` : '',
+    config.license ? `License: ${config.license}` : '',
+    config.version ? `Version: ${config.version}` : '',
+    'Source count: ' + sources.length,
+    ...formatSourceCredits(sources),
+    'Rule count: ' + built.ruleCount,
+    'Rules removed by domain deduplication: ' + built.deduplicatedRemoved,
+    ...formatFilterHeader(built.filterReport),
+    ...formatFailureHeader(failures),
+    'Compilation time: ' + (Date.now() - startTime) + 'ms'
+  ].filter(Boolean);
+}
+
+/**
+ * Every plain blocked domain in a list, for diffing builds
+ */
+function blockedDomains(rules: string[]): string[] {
+  const domains = new Set<string>();
+  for (const rule of rules) {
+    if (rule.length === 0 || isComment(rule)) {
+      continue;
+    }
+    for (const domain of plainBlockedDomains(rule.trim()) ?? []) {
+      domains.add(domain);
     }
-    
-    return response;
-  } catch (fetchError) {
-    const errorMessage = fetchError instanceof Error ? fetchError.message : String(fetchError);
-    throw new Error(`Failed to fetch ${url}: ${errorMessage}`);
-  } finally {
-    clearTimeout(timeoutId);
   }
+  return [...domains];
 }
 
 /**
- * Compile blocklist from sources with fail-fast behavior and debug logging
+ * Split a comma-separated tag list such as `ads,malware`
  */
-export async function compileBlocklist(): Promise<string> {
-  console.log('[DEBUG] Starting blocklist compilation...');
+function parseTagList(value: string | undefined): string[] {
+  return (value ?? '').split(',').map(tag => tag.trim()).filter(tag => tag.length > 0);
+}
+
+/**
+ * Whether a source carries at least one of the requested tags; no requested tags selects every source
+ */
+function matchesTags(source: SourceConfig, tags: string[]): boolean {
+  return tags.length === 0 || (source.tags ?? []).some(tag => tags.includes(tag));
+}
+
+/**
+ * Options for a single compile run
+ */
+export interface CompileOptions {
+  /** Build entirely from cached source copies without touching the network */
+  offline?: boolean;
+  /** Only compile sources with at least one of these tags; defaults to `SOURCE_TAGS` */
+  tags?: string[];
+  /** Publish even if a build-level guardrail trips */
+  force?: boolean;
+}
+
+/**
+ * Compile blocklist from sources with per-source failure handling and debug logging.
+ * Everything logged during the run carries its run id.
+ */
+export function compileBlocklist(options: CompileOptions = {}): Promise<string> {
+  const runId = crypto.randomBytes(4).toString("hex");
+  return withLogContext({ runId }, () => compile(options, runId));
+}
+
+/**
+ * One compile run
+ */
+async function compile(options: CompileOptions, runId: string): Promise<string> {
+  const offline = options.offline ?? process.env.OFFLINE === "1";
+  log.info(`Starting blocklist compilation${offline ? ' (offline)' : ''}...`);
   const startTime = Date.now();
+  const sourceReports: SourceReport[] = [];
+  const listRuleCounts: Record<string, number> = {};
+  let listStages: StageCount[] = [];
+  let ruleCount: number | null = null;
+  let historyRetention: number | undefined;
+  const guardrailReport: GuardrailReport = { tripped: [], overridden: false };
+  let snapshot: string | null = null;
+  
+  /** Record what this run did, whether it succeeded or not, in memory and in the history directory */
+  const recordReport = (success: boolean, error?: unknown, blockedDomains: string[] | null = null) => {
+    const finishedAt = Date.now();
+    const report: CompileReport = {
+      runId,
+      startedAt: new Date(startTime).toISOString(),
+      finishedAt: new Date(finishedAt).toISOString(),
+      durationMs: finishedAt - startTime,
+      success,
+      offline,
+      error: error === undefined ? undefined : error instanceof Error ? error.message : String(error),
+      sources: sourceReports,
+      stages: listStages,
+      guardrails: guardrailReport,
+      snapshot,
+      ruleCount,
+      lists: listRuleCounts
+    };
+    recordCompileReport(report);
+    recordCompileMetrics(report);
+    writeHistoryRecord(report, blockedDomains, historyRetention);
+  };
   
   try {
     // Validate input config exists
-    console.log('[DEBUG] Checking for config file...');
+    log.debug('Checking for config file...');
     if (!fs.existsSync(CONFIG_PATH)) {
       throw new Error(`Config file not found at ${CONFIG_PATH}`);
     }
-    console.log(`[DEBUG] Config file found at: ${CONFIG_PATH}`);
+    log.debug(`Config file found at: ${CONFIG_PATH}`);
 
     // Read and parse the configuration file
-    console.log('[DEBUG] Reading and parsing configuration file...');
+    log.debug('Reading and parsing configuration file...');
     let config: any;
     try {
       const configContents = fs.readFileSync(CONFIG_PATH, 'utf-8');
-      console.log(`[DEBUG] Config file size: ${configContents.length} characters`);
+      log.debug(`Config file size: ${configContents.length} characters`);
       config = JSON.parse(configContents);
-      console.log(`[DEBUG] Config parsed successfully`);
+      log.debug(`Config parsed successfully`);
     } catch (parseError: any) {
-      console.error('[ERROR] Failed to parse config.json:', parseError);
+      log.error('Failed to parse config.json', { error: parseError });
       throw new Error(`Failed to parse config.json: ${parseError.message}`);
     }
 
     // Validate configuration
-    console.log('[DEBUG] Validating configuration schema...');
+    log.debug('Validating configuration schema...');
     validateConfig(config);
-    console.log('[DEBUG] Configuration validation passed');
+    log.debug('Configuration validation passed');
+    // Inline sources get a location too, so reports, failures and lists can refer to them
+    for (const source of config.sources as SourceConfig[]) {
+      source.source = sourceLocation(source);
+    }
+    historyRetention = config.historyRetention;
+    const guardrails = resolveGuardrails(config.guardrails);
 
-    const enabledSources = config.sources.filter((source: any) => source.enabled !== false);
-    console.log(`[DEBUG] Found ${enabledSources.length} enabled sources out of ${config.sources.length} total`);
+    const tags = options.tags ?? parseTagList(process.env.SOURCE_TAGS);
+    const enabledSources: SourceConfig[] = config.sources.filter((source: SourceConfig) => source.enabled !== false && matchesTags(source, tags));
+    log.debug(`Found ${enabledSources.length} enabled sources out of ${config.sources.length} total${tags.length > 0 ? ` with tags ${tags.join(', ')}` : ''}`);
+    if (enabledSources.length === 0) {
+      throw new Error(tags.length > 0 ? `No enabled sources are tagged ${tags.join(' or ')}` : 'No enabled sources in config.json');
+    }
 
-    // Fetch all sources with fail-fast behavior
-    console.log('[DEBUG] Starting to fetch sources individually...');
-    const allRules: string[] = [];
+    // Load exclusions and inclusions up front so a broken filter list fails before any fetching
+    log.debug('Loading exclusions and inclusions...');
+    const globalFilters = await loadFilters(config, offline);
+    const sourceFilters: (CompiledFilters | null)[] = [];
+    for (const source of enabledSources as SourceConfig[]) {
+      sourceFilters.push(await loadFilters(source, offline));
+    }
+    const namedLists: ListConfig[] = config.lists ?? [];
+    const listFilters: (CompiledFilters | null)[] = [];
+    for (const list of namedLists) {
+      listFilters.push(await loadFilters(list, offline));
+    }
+
+    // Fetch all sources concurrently, then merge them in config order
+    const concurrency = config.concurrency ?? DEFAULT_CONCURRENCY;
+    const perHostConcurrency = config.perHostConcurrency ?? DEFAULT_PER_HOST_CONCURRENCY;
+    log.debug(`Fetching sources with concurrency ${concurrency} (${perHostConcurrency} per host)...`);
     
-    for (let i = 0; i < enabledSources.length; i++) {
-      const source = enabledSources[i];
-      console.log(`[DEBUG] Fetching source ${i + 1}/${enabledSources.length}: ${source.name}`);
-      console.log(`[DEBUG] URL: ${source.source}`);
-      
-      try {
-        const fetchStart = Date.now();
-        const response = await fetchWithTimeout(source.source);
+    const sourceDurations: number[] = [];
+    const results = await runPool(
+      enabledSources as SourceConfig[],
+      (source, i) => withLogContext({ source: source.name }, async () => {
+        log.debug(`Fetching source ${i + 1}/${enabledSources.length}: ${source.name}`);
+        log.debug(`URL: ${source.source}`);
         
-        if (!response.ok) {
-          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        const sourceStart = Date.now();
+        try {
+          const fetched = await fetchSourceContent(source, config, offline);
+          const processed = processSourceContent(source, fetched.content, guardrails);
+          if (!fetched.fromCache && !fetched.local) {
+            writeSourceCache(sourceCacheKey(source), fetched.content, fetched);
+          }
+          return { ...processed, fromCache: fetched.fromCache };
+        } finally {
+          sourceDurations[i] = Date.now() - sourceStart;
         }
+      }),
+      { concurrency, perKeyConcurrency: perHostConcurrency, keyOf: source => sourceHost(source.source) }
+    );
+    
+    // Optional sources fall back to their cached copy
+    const collected: CollectedSource[] = [];
+    const failures: SourceFailure[] = [];
+    const maxSourceFailures = config.maxSourceFailures ?? DEFAULT_MAX_SOURCE_FAILURES;
+    
+    for (let i = 0; i < enabledSources.length; i++) {
+      const source: SourceConfig = enabledSources[i];
+      const result = results[i];
+      
+      const sourceReport: SourceReport = {
+        name: source.name,
+        url: sourceCacheKey(source),
+        status: "fetched",
+        durationMs: sourceDurations[i],
+        bytes: 0,
+        lines: 0,
+        rules: 0,
+        stages: [],
+        rejected: []
+      };
+      sourceReports.push(sourceReport);
+      
+      let processed: ProcessedSource;
+      if (result.status === "fulfilled") {
+        processed = result.value;
+        sourceReport.status = result.value.fromCache ? "cached" : "fetched";
+      } else {
+        const error = result.reason;
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        sourceReport.status = "failed";
+        sourceReport.error = errorMessage;
         
-        const content = await response.text();
-        const fetchTime = Date.now() - fetchStart;
-        
-        if (!content || content.trim().length === 0) {
-          throw new Error(`Empty or invalid response from ${source.source}`);
+        if (source.required) {
+          log.error(`CRITICAL: Failed to fetch required source ${source.name} from ${source.source}`, { source: source.name, error });
+          throw new Error(`Compilation failed at required source ${i + 1}/${enabledSources.length}: ${source.name}. Error: ${errorMessage}`);
         }
         
-        console.log(`[DEBUG] Successfully fetched ${source.name} in ${fetchTime}ms`);
-        console.log(`[DEBUG] Content length: ${content.length} characters`);
-        
-        // Process lines efficiently to avoid stack overflow
-        console.log(`[DEBUG] Processing lines from ${source.name}...`);
-        const lines: string[] = [];
-        const contentLines = content.split('\n');
+        log.warn(`Failed to fetch optional source ${source.name} from ${source.source}: ${errorMessage}`, { source: source.name });
+        const cached = readSourceCache(sourceCacheKey(source));
+        const failure: SourceFailure = { name: source.name, url: sourceCacheKey(source), reason: errorMessage, cachedAt: cached?.fetchedAt };
+        failures.push(failure);
+        sourceReport.cachedAt = cached?.fetchedAt;
         
-        for (const line of contentLines) {
-          const trimmed = line.trim();
-          if (trimmed.length > 0) {
-            lines.push(trimmed);
-          }
+        if (failures.length > maxSourceFailures) {
+          throw new Error(`Compilation failed: ${failures.length} sources failed, more than the ${maxSourceFailures} tolerated. Last error from ${source.name}: ${errorMessage}`);
         }
         
-        if (lines.length === 0) {
-          throw new Error(`No valid lines found in ${source.source}`);
+        if (!cached) {
+          log.warn(`No cached copy of ${source.name}, skipping it`, { source: source.name });
+          continue;
         }
         
-        console.log(`[DEBUG] Processed ${lines.length} lines from ${source.name}`);
-        
-        // Add lines in smaller batches to avoid stack overflow
-        const batchSize = 10000;
-        for (let j = 0; j < lines.length; j += batchSize) {
-          const batch = lines.slice(j, j + batchSize);
-          allRules.push(...batch);
+        log.info(`Using cached copy of ${source.name} from ${cached.fetchedAt}`, { source: source.name });
+        try {
+          processed = withLogContext({ source: source.name }, () => processSourceContent(source, cached.body, guardrails));
+        } catch (cacheError) {
+          // The cached copy fails parsing or guardrails too, so the source is skipped like one without a cache
+          const cacheMessage = cacheError instanceof Error ? cacheError.message : String(cacheError);
+          log.warn(`Cached copy of ${source.name} is not usable either, skipping it: ${cacheMessage}`, { source: source.name });
+          failure.reason = `${errorMessage}; cached copy: ${cacheMessage}`;
+          failure.cachedAt = undefined;
+          sourceReport.error = failure.reason;
+          sourceReport.cachedAt = undefined;
+          continue;
         }
-        
-        console.log(`[DEBUG] Total rules collected so far: ${allRules.length}`);
-        
-      } catch (error) {
-        console.error(`[ERROR] CRITICAL: Failed to fetch ${source.name} from ${source.source}`);
-        console.error(`[ERROR] Error details:`, error);
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        throw new Error(`Compilation failed at source ${i + 1}/${enabledSources.length}: ${source.name}. Error: ${errorMessage}`);
       }
+      
+      let sourceRules = processed.rules;
+      const filterReport: FilterReportEntry[] = [];
+      const filters = sourceFilters[i];
+      if (filters) {
+        const filtered = applyFilters(sourceRules, filters);
+        recordFilterResult(filterReport, source.name, filtered);
+        processed.stages.push({ stage: "filters", removed: sourceRules.length - filtered.rules.length });
+        sourceRules = filtered.rules;
+      }
+      
+      sourceReport.bytes = processed.bytes;
+      sourceReport.lines = processed.lines;
+      sourceReport.stages = processed.stages;
+      sourceReport.rejected = processed.rejected;
+      sourceReport.rules = sourceRules.filter(rule => rule.trim().length > 0 && !isComment(rule)).length;
+      collected.push({ source, rules: sourceRules, filterReport });
     }
 
-    console.log(`[DEBUG] Finished fetching all sources. Total rules: ${allRules.length}`);
-
-    if (allRules.length === 0) {
-      throw new Error("CRITICAL: No rules were collected from any sources. Cannot proceed.");
-    }
-
-    // Apply transformations to the concatenated list
-    console.log('[DEBUG] Starting transformations...');
-    let processedRules = allRules;
-
-    // Remove comments
-    console.log('[DEBUG] Removing comments and empty lines...');
-    const beforeComments = processedRules.length;
-    processedRules = processedRules.filter((rule: string) => {
-      const trimmed = rule.trim();
-      return trimmed.length > 0 && 
-             !trimmed.startsWith('#') && 
-             !trimmed.startsWith('!') &&
-             !trimmed.startsWith('[');
-    });
-    console.log(`[DEBUG] Removed ${beforeComments - processedRules.length} comment/header lines`);
-
-    if (processedRules.length === 0) {
-      throw new Error("CRITICAL: No valid rules remaining after removing comments.");
-    }
-
-    // Deduplicate
-    console.log('[DEBUG] Deduplicating rules...');
-    const beforeDedup = processedRules.length;
-    processedRules = [...new Set(processedRules)];
-    console.log(`[DEBUG] Removed ${beforeDedup - processedRules.length} duplicate rules`);
-
-    // Basic validation
-    console.log('[DEBUG] Validating rules...');
-    const beforeValidation = processedRules.length;
-    processedRules = processedRules.filter((rule: string) => {
-      const trimmed = rule.trim();
-      return trimmed.includes('.') && !trimmed.includes(' ') && trimmed.length > 3;
-    });
-    console.log(`[DEBUG] Removed ${beforeValidation - processedRules.length} invalid rules`);
+    log.debug(`Finished fetching all sources. Collected ${collected.length} of ${enabledSources.length}`);
 
-    if (processedRules.length === 0) {
-      throw new Error("CRITICAL: No valid rules remaining after validation.");
-    }
+    // Build the default list from every enabled source
+    const built = buildList(config.name, collected, config.transformations, [[config.name, globalFilters]]);
+    ruleCount = built.ruleCount;
+    listStages = built.stages;
 
-    if (processedRules.length < 100) {
-      throw new Error(`CRITICAL: Only ${processedRules.length} rules remaining, which seems too low.`);
+    // Compare with the previous published build before anything gets replaced
+    guardrailReport.tripped = checkBuild(built.ruleCount, sourceReports, readLastPublished(), guardrails);
+    if (guardrailReport.tripped.length > 0) {
+      const reasons = guardrailReport.tripped.join('; ');
+      if (!options.force) {
+        throw new Error(`Guardrails tripped, keeping the previous list: ${reasons}. Use --force to publish anyway.`);
+      }
+      guardrailReport.overridden = true;
+      log.warn(`Guardrails tripped but overridden, publishing anyway: ${reasons}`);
     }
 
-    console.log(`[DEBUG] Final rule count: ${processedRules.length}`);
-
-    // Format the output with a header
-    console.log('[DEBUG] Creating output with header...');
+    // Build the header shared by every output format
+    log.debug('Creating output with header...');
     const timestamp = new Date();
-    const header = [
-      `! Title: ${config.name}`,
-      `! Last updated: ${timestamp.toISOString()}`,
-      `! Description: ${config.description}`,
-      config.homepage ? `! Homepage: ${config.homepage}` : '',
-      config.license ? `! License: ${config.license}` : '',
-      config.version ? `! Version: ${config.version}` : '',
-      '! Source count: ' + enabledSources.length,
-      '! Rule count: ' + processedRules.length,
-      '! Compilation time: ' + (Date.now() - startTime) + 'ms',
-      '!'
-    ].filter(Boolean).join('\n');
-
-    const outputContent = `${header}\n${processedRules.join('\n')}`;
+    const header = buildHeader(config, config.name, config.description, enabledSources, built, failures, startTime, timestamp);
+
+    const outputContent = renderOutput("adguard", built.rules, header, timestamp).content;
 
     if (outputContent.length < 1000) {
       throw new Error(`CRITICAL: Output too small (${outputContent.length} characters).`);
     }
 
-    // Write the output to file
-    console.log('[DEBUG] Writing output to file...');
-    try {
-      secureWriteFile(OUTPUT_PATH, outputContent);
-      
-      if (!fs.existsSync(OUTPUT_PATH)) {
-        throw new Error("Output file was not created successfully");
+    // Build every named list from its subset of the already fetched sources
+    const listFiles = resolveListFiles(namedLists);
+    const listContents = new Map<string, string>();
+    for (let i = 0; i < namedLists.length; i++) {
+      const list = namedLists[i];
+      const selected = selectSources(list, enabledSources);
+      if (selected.size === 0) {
+        // Every source of the list is disabled or filtered out by tag; keep its previous file
+        log.warn(`Skipping list "${list.slug}": none of its sources are enabled${tags.length > 0 ? ` and tagged ${tags.join(' or ')}` : ''}`);
+        continue;
       }
+      const listCollected = collected.filter(entry => selected.has(entry.source));
+      const listFailures = failures.filter(failure => enabledSources.some(
+        (source: SourceConfig) => selected.has(source) && sourceCacheKey(source) === failure.url
+      ));
+      log.debug(`Building list "${list.slug}" from ${listCollected.length} of ${selected.size} selected sources...`);
       
-      const writtenSize = fs.statSync(OUTPUT_PATH).size;
-      if (writtenSize !== outputContent.length) {
-        throw new Error(`File size mismatch: expected ${outputContent.length}, got ${writtenSize}`);
-      }
+      // A list without transformations of its own is processed like the default list, and the
+      // top-level exclusions and inclusions apply to every list before its own
+      const listBuilt = buildList(list.slug, listCollected, list.transformations ?? config.transformations, [
+        [config.name, globalFilters],
+        [list.slug, listFilters[i]]
+      ]);
+      listRuleCounts[list.slug] = listBuilt.ruleCount;
+      const listHeader = buildHeader(config, list.name, list.description ?? config.description, [...selected], listBuilt, listFailures, startTime, timestamp);
+      listContents.set(list.slug, renderOutput("adguard", listBuilt.rules, listHeader, timestamp).content);
+    }
+
+    // Only write once every list has been built, so a failing list publishes nothing
+    const releasedFiles = new Map<string, string>();
+    const outputFiles = resolveOutputFiles(config.outputs);
+    for (const [outputFormat, outputPath] of outputFiles) {
+      const rendered = outputFormat === "adguard"
+        ? { content: outputContent, ruleCount: built.ruleCount, dropped: 0 }
+        : renderOutput(outputFormat, EXACT_MATCH_FORMATS.has(outputFormat) ? built.exactRules : built.rules, header, timestamp);
       
-    } catch (writeError) {
-      console.error('[ERROR] CRITICAL: Failed to write output file:', writeError);
-      const errorMessage = writeError instanceof Error ? writeError.message : String(writeError);
-      throw new Error(`Failed to write output file: ${errorMessage}`);
+      log.debug(`Writing ${outputFormat} output to ${outputPath} (${rendered.ruleCount} rules, ${rendered.dropped} not expressible)...`);
+      writeOutputFile(outputPath, rendered.content);
+      releasedFiles.set(outputPath, rendered.content);
+    }
+
+    for (const [slug, listContent] of listContents) {
+      const listPath = listFiles.get(slug)!;
+      log.debug(`Writing list "${slug}" to ${listPath}...`);
+      fs.mkdirSync(securePath(dirname(listPath)), { mode: 0o755, recursive: true });
+      writeOutputFile(listPath, listContent);
+      releasedFiles.set(listPath, listContent);
+    }
+
+    // Hand the new files to an in-process server without it having to re-read them
+    publishRelease(releasedFiles, timestamp);
+
+    // Keep a copy for /versions and rollbacks; the build is already published, so this cannot fail it
+    try {
+      snapshot = createSnapshot(releasedFiles, outputFiles.get("adguard"), built.ruleCount, timestamp, config.snapshotRetention).id;
+    } catch (snapshotError) {
+      log.error('Failed to save snapshot of the published build', { error: snapshotError });
     }
     
     const totalTime = Date.now() - startTime;
-    console.log(`[DEBUG] Compilation completed successfully in ${totalTime}ms`);
-    console.log(`[DEBUG] Output written to: ${OUTPUT_PATH}`);
-    console.log(`[DEBUG] Final blocklist size: ${outputContent.length} characters`);
+    log.info(`Compilation completed successfully in ${totalTime}ms`, { ruleCount: built.ruleCount });
+    log.debug(`Outputs written: ${[...outputFiles.keys()].join(', ')}`);
+    if (namedLists.length > 0) {
+      log.debug(`Named lists written: ${namedLists.map(list => list.slug).join(', ')}`);
+    }
+    log.debug(`Final blocklist size: ${outputContent.length} characters`);
+    logFailureSummary(failures);
+    recordReport(true, undefined, blockedDomains(built.rules));
 
     return outputContent;
   } catch (error) {
-    console.error("[ERROR] Compilation failed:", error);
+    log.error("Compilation failed", { error });
+    recordReport(false, error);
     throw error;
   }
 }
 
 // Execute if run directly
 if (import.meta.url === `file://${process.argv[1]}`) {
-  compileBlocklist().catch(error => {
-    console.error("Compilation failed:", error);
-    process.exit(1);
-  });
+  const rollbackIndex = process.argv.indexOf("--rollback");
+  if (rollbackIndex !== -1) {
+    // Re-publish an earlier snapshot instead of compiling
+    try {
+      rollbackTo(process.argv[rollbackIndex + 1] ?? "");
+    } catch (error) {
+      log.error("Rollback failed", { error });
+      flushLogs().finally(() => process.exit(1));
+    }
+  } else {
+    const tagsIndex = process.argv.indexOf("--tags");
+    compileBlocklist({
+      offline: process.argv.includes("--offline") || undefined,
+      force: process.argv.includes("--force"),
+      tags: tagsIndex !== -1 ? parseTagList(process.argv[tagsIndex + 1]) : undefined
+    }).catch(() => {
+      // The failure has already been logged by the compile itself
+      flushLogs().finally(() => process.exit(1));
+    });
+  }
 }
@@ -1,209 +1,435 @@
 import cron from "node-cron";
-import { compileBlocklist } from "./compile.js";
+import { CompileOptions, compileBlocklist } from "./compile.js";
 import { join } from "path";
 import fs from "fs";
-import { format } from "date-fns";
-import path from "path";
+import { securePath, secureWriteFile } from "./files.js";
+import { nextCronRun, parseCronExpression } from "./schedule.js";
+import { flushLogs, logger, withLogContext } from "./logger.js";
+
+const log = logger.child({ component: "scheduler" });
+
+/**
+ * Safely read and parse JSON from a file
+ */
+function safeReadJson(filePath: string): any {
+  try {
+    const securedPath = securePath(filePath);
+    
+    if (!fs.existsSync(securedPath)) {
+      return null;
+    }
+    
+    const content = fs.readFileSync(securedPath, "utf-8");
+    return JSON.parse(content);
+  } catch (error) {
+    log.error(`Error reading JSON file ${filePath}`, { error });
+    return null;
+  }
+}
+
+/**
+ * Maximum consecutive failures before cooling off
+ */
+const MAX_FAILURES = 3;
+
+/**
+ * Delay before the first retry after a failed compilation; doubles with every further failure
+ */
+const RETRY_BASE_DELAY_MS = 5 * 60 * 1000;
+
+/**
+ * Upper bound for the delay between retries
+ */
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+
+/**
+ * How long to stop compiling after `MAX_FAILURES` consecutive failures before trying again
+ */
+const COOLDOWN_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * Schedule used when neither `CRON_SCHEDULE` nor `updateInterval` is set: midnight
+ */
+const DEFAULT_CRON_SCHEDULE = "0 0 * * *";
+
+/**
+ * Longest delay `setTimeout` supports; longer waits are split up
+ */
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+/**
+ * File the scheduler state is written to, so other processes and the CLI can report it
+ */
+const STATE_FILE = join(process.cwd(), "scheduler-state.json");
 
 /**
- * Path to the log file
+ * What started a compilation
  */
-const LOG_FILE = join(process.cwd(), "cron.log");
+export type RunTrigger = "startup" | "schedule" | "retry" | "recovery" | "manual" | "admin";
 
-// Ensure log directory exists with proper permissions
-const LOG_DIR = path.dirname(LOG_FILE);
-if (!fs.existsSync(LOG_DIR)) {
-  fs.mkdirSync(LOG_DIR, { mode: 0o755, recursive: true });
+/**
+ * Outcome of one compilation started by the scheduler
+ */
+export interface RunResult {
+  trigger: RunTrigger;
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  success: boolean;
+  error?: string;
 }
 
 /**
- * Maximum log file size (5MB)
+ * Observable scheduler state; dates are ISO strings so the state can be written as JSON
  */
-const MAX_LOG_SIZE = 5 * 1024 * 1024;
+export interface SchedulerState {
+  /** Human-readable schedule, e.g. `every 86400s` or `cron "0 0 * * *"` */
+  schedule: string;
+  running: boolean;
+  /** Next time a compilation will start, whether scheduled, a retry or a recovery */
+  nextRun: string | null;
+  nextRunTrigger: RunTrigger | null;
+  lastRun: RunResult | null;
+  lastSuccess: string | null;
+  consecutiveFailures: number;
+  /** Regular runs are skipped until this time after too many consecutive failures */
+  cooldownUntil: string | null;
+}
 
 /**
- * Secure the path to prevent path traversal attacks
+ * How often compilations run
  */
-function securePath(filePath: string): string {
-  // Normalize the path to resolve any ../ or ./ components
-  const normalizedPath = path.normalize(filePath);
-  
-  // Ensure the path is within the current working directory
-  const resolvedPath = path.resolve(normalizedPath);
-  const cwdPath = path.resolve(process.cwd());
-  
-  if (!resolvedPath.startsWith(cwdPath)) {
-    throw new Error("Path traversal attempt detected");
+interface Schedule {
+  description: string;
+  /** First run time after the given time, or null if there is none */
+  next(from: Date): Date | null;
+}
+
+/**
+ * Handle returned by `startScheduler`
+ */
+export interface Scheduler {
+  stop(): void;
+  /** Compile now, or join the compilation already running */
+  runNow(): Promise<RunResult>;
+}
+
+let activeSchedule: Schedule | null = null;
+const timers: { schedule?: NodeJS.Timeout; retry?: NodeJS.Timeout } = {};
+let nextScheduledRun: Date | null = null;
+let pendingRetry: { at: Date; trigger: RunTrigger } | null = null;
+let currentRun: Promise<RunResult> | null = null;
+let lastRun: RunResult | null = null;
+let lastSuccess: Date | null = null;
+let cooldownUntil: Date | null = null;
+
+/**
+ * Count of consecutive failures
+ */
+let consecutiveFailures = 0;
+
+/**
+ * Work out the schedule: `CRON_SCHEDULE` wins, then `updateInterval` from config.json, then midnight
+ */
+function resolveSchedule(cronExpression?: string): Schedule {
+  let updateInterval: number | undefined;
+  if (!cronExpression) {
+    const config = safeReadJson(join(process.cwd(), "config.json"));
+    updateInterval = config?.updateInterval;
   }
-  
-  return resolvedPath;
+
+  if (!cronExpression && updateInterval) {
+    const intervalMs = updateInterval * 1000;
+    return {
+      description: `every ${updateInterval}s`,
+      next: from => new Date(from.getTime() + intervalMs)
+    };
+  }
+
+  const expression = cronExpression || DEFAULT_CRON_SCHEDULE;
+  if (!cron.validate(expression)) {
+    throw new Error(`Invalid cron expression: ${expression}`);
+  }
+  // Parse up front so an expression we cannot compute run times for fails at startup
+  parseCronExpression(expression);
+  return {
+    description: `cron "${expression}"`,
+    next: from => nextCronRun(expression, from)
+  };
 }
 
 /**
- * Log a message to console and file with rotation
+ * Run a callback at a given time, splitting waits longer than `setTimeout` allows
  */
-function log(message: string): void {
-  const timestamp = format(new Date(), "yyyy-MM-dd HH:mm:ss");
-  const logMessage = `[${timestamp}] ${message}`;
-  
-  console.log(logMessage);
-  
-  try {
-    // Secure the log file path
-    const secureLogPath = securePath(LOG_FILE);
-    
-    // Check log file size and rotate if needed
-    if (fs.existsSync(secureLogPath)) {
-      const stats = fs.statSync(secureLogPath);
-      if (stats.size > MAX_LOG_SIZE) {
-        // Create a backup of the current log file
-        const backupFile = `${secureLogPath}.${format(new Date(), "yyyyMMdd-HHmmss")}.bak`;
-        fs.renameSync(secureLogPath, backupFile);
-        
-        // Start a new log file
-        fs.writeFileSync(secureLogPath, `[${timestamp}] Log file rotated\n`, { mode: 0o644 });
-      }
+function armTimer(kind: keyof typeof timers, at: Date, callback: () => void): void {
+  clearTimeout(timers[kind]);
+  const delay = Math.min(Math.max(0, at.getTime() - Date.now()), MAX_TIMER_DELAY_MS);
+  timers[kind] = setTimeout(() => {
+    if (Date.now() < at.getTime()) {
+      armTimer(kind, at, callback);
+      return;
     }
-    
-    // Append to log file with proper permissions
-    fs.appendFileSync(secureLogPath, logMessage + "\n", { mode: 0o644 });
-  } catch (error) {
-    console.error(`Failed to write to log file: ${error}`);
+    timers[kind] = undefined;
+    callback();
+  }, delay);
+}
+
+/**
+ * Cancel a pending retry or recovery attempt
+ */
+function cancelRetry(): void {
+  clearTimeout(timers.retry);
+  timers.retry = undefined;
+  pendingRetry = null;
+}
+
+/**
+ * Current scheduler state, or null if no scheduler runs in this process
+ */
+export function getSchedulerState(): SchedulerState | null {
+  if (!activeSchedule) {
+    return null;
   }
+
+  // Regular runs are skipped while a retry or recovery is pending
+  const next = pendingRetry ?? (nextScheduledRun ? { at: nextScheduledRun, trigger: "schedule" as RunTrigger } : null);
+
+  return {
+    schedule: activeSchedule.description,
+    running: currentRun !== null,
+    nextRun: next ? next.at.toISOString() : null,
+    nextRunTrigger: next ? next.trigger : null,
+    lastRun,
+    lastSuccess: lastSuccess ? lastSuccess.toISOString() : null,
+    consecutiveFailures,
+    cooldownUntil: cooldownUntil ? cooldownUntil.toISOString() : null
+  };
 }
 
 /**
- * Safely read and parse JSON from a file
+ * Scheduler state from this process, or from the state file written by a scheduler in another process
  */
-function safeReadJson(filePath: string): any {
+export function readSchedulerState(): SchedulerState | null {
+  return getSchedulerState() ?? safeReadJson(STATE_FILE);
+}
+
+/**
+ * Write the current state to disk for other processes
+ */
+function persistState(): void {
+  const state = getSchedulerState();
+  if (!state) {
+    return;
+  }
   try {
-    const securedPath = securePath(filePath);
-    
-    if (!fs.existsSync(securedPath)) {
-      return null;
-    }
-    
-    const content = fs.readFileSync(securedPath, "utf-8");
-    return JSON.parse(content);
+    secureWriteFile(STATE_FILE, JSON.stringify(state, null, 2) + "\n");
   } catch (error) {
-    log(`Error reading JSON file ${filePath}: ${error}`);
-    return null;
+    log.error("Failed to write scheduler state", { error });
   }
 }
 
 /**
- * Maximum consecutive failures before giving up
+ * Arm the timer for the next regular run
  */
-const MAX_FAILURES = 3;
+function scheduleNextRun(from: Date): void {
+  nextScheduledRun = activeSchedule!.next(from);
+  if (!nextScheduledRun) {
+    log.warn(`Schedule ${activeSchedule!.description} has no upcoming run`);
+    return;
+  }
+  armTimer("schedule", nextScheduledRun, () => {
+    scheduleNextRun(new Date());
+    handleScheduledRun();
+  });
+  log.info(`Next scheduled compilation at ${nextScheduledRun.toISOString()}`);
+}
 
 /**
- * Count of consecutive failures
+ * A regular run is due; skip it while cooling off or while a retry is already pending
  */
-let consecutiveFailures = 0;
+function handleScheduledRun(): void {
+  if (cooldownUntil) {
+    log.warn(`Skipping scheduled compilation: cooling off until ${cooldownUntil.toISOString()} after ${consecutiveFailures} consecutive failures`);
+    persistState();
+    return;
+  }
+  if (pendingRetry) {
+    log.info(`Skipping scheduled compilation: a retry is already due at ${pendingRetry.at.toISOString()}`);
+    persistState();
+    return;
+  }
+  void runCompilation("schedule");
+}
 
 /**
- * Start the cron scheduler
+ * After a failure, schedule a retry with exponential backoff, or cool off after too many failures
  */
-export function startScheduler(cronExpression = "0 0 * * *") {
-  log(`Starting scheduler with schedule: ${cronExpression}`);
-  
-  // Check if the expression is valid
-  if (!cron.validate(cronExpression)) {
-    throw new Error(`Invalid cron expression: ${cronExpression}`);
+function scheduleRetry(): void {
+  let at: Date;
+  let trigger: RunTrigger;
+  if (consecutiveFailures >= MAX_FAILURES) {
+    cooldownUntil = new Date(Date.now() + COOLDOWN_MS);
+    at = cooldownUntil;
+    trigger = "recovery";
+    log.warn(`Reached ${consecutiveFailures} consecutive failures. Cooling off until ${at.toISOString()} before trying again.`);
+  } else {
+    const delay = Math.min(RETRY_BASE_DELAY_MS * Math.pow(2, consecutiveFailures - 1), RETRY_MAX_DELAY_MS);
+    at = new Date(Date.now() + delay);
+    trigger = "retry";
+    log.info(`Retrying in ${Math.round(delay / 1000)}s (attempt ${consecutiveFailures + 1})`);
   }
-  
-  // Read update interval from config
-  try {
-    const configPath = join(process.cwd(), "config.json");
-    const config = safeReadJson(configPath);
-    
-    if (config && config.updateInterval) {
-      log(`Config has updateInterval: ${config.updateInterval} seconds`);
+
+  pendingRetry = { at, trigger };
+  armTimer("retry", at, () => {
+    pendingRetry = null;
+    if (trigger === "recovery") {
+      cooldownUntil = null;
+      log.info("Cool-off period over, attempting recovery compilation");
     }
-  } catch (error) {
-    log(`Error reading config: ${error}`);
+    void runCompilation(trigger);
+  });
+}
+
+/**
+ * Compile the blocklist unless a compilation is already running, in which case join it
+ */
+function runCompilation(trigger: RunTrigger, options: CompileOptions = {}): Promise<RunResult> {
+  if (currentRun) {
+    log.info(`Compilation already in progress, not starting another (${trigger})`);
+    return currentRun;
+  }
+
+  const run = async (): Promise<RunResult> => {
+    const startedAt = new Date();
+    log.info(`Starting compilation (${trigger})...`);
+    persistState();
+
+    let error: unknown;
+    try {
+      await withLogContext({ trigger }, () => compileBlocklist(options));
+    } catch (compileError) {
+      error = compileError ?? new Error("Unknown error");
+    }
+
+    const finishedAt = new Date();
+    const result: RunResult = {
+      trigger,
+      startedAt: startedAt.toISOString(),
+      finishedAt: finishedAt.toISOString(),
+      durationMs: finishedAt.getTime() - startedAt.getTime(),
+      success: error === undefined
+    };
+    lastRun = result;
+
+    if (error === undefined) {
+      log.info("Blocklist update completed successfully", { durationMs: result.durationMs });
+      consecutiveFailures = 0; // Reset on success
+      cooldownUntil = null;
+      lastSuccess = finishedAt;
+      cancelRetry();
+    } else {
+      result.error = error instanceof Error ? error.message : String(error);
+      consecutiveFailures++;
+      log.error(`Blocklist update failed (${consecutiveFailures} consecutive)`, { error });
+      if (activeSchedule) {
+        scheduleRetry();
+      }
+    }
+    return result;
+  };
+
+  currentRun = run().finally(() => {
+    currentRun = null;
+    persistState();
+  });
+  return currentRun;
+}
+
+/**
+ * Whether a compilation started through the scheduler is running in this process
+ */
+export function isCompilationRunning(): boolean {
+  return currentRun !== null;
+}
+
+/**
+ * Compile now through the scheduler's single-run guard, whether or not a schedule is active
+ */
+export function triggerCompilation(trigger: RunTrigger, options: CompileOptions = {}): Promise<RunResult> {
+  return runCompilation(trigger, options);
+}
+
+/**
+ * Start the scheduler.
+ * Runs on `cronExpression` when given, otherwise every `updateInterval` seconds from config.json.
+ */
+export function startScheduler(cronExpression?: string): Scheduler {
+  if (activeSchedule) {
+    throw new Error("Scheduler is already running");
   }
+  activeSchedule = resolveSchedule(cronExpression);
+  log.info(`Starting scheduler with schedule: ${activeSchedule.description}`);
   
   // First run immediately if no blocklist exists
   const blocklistPath = join(process.cwd(), "adguard-blocklist.txt");
   if (!fs.existsSync(blocklistPath)) {
-    log("Blocklist doesn't exist, running initial compilation...");
+    log.info("Blocklist doesn't exist, running initial compilation...");
     
     // Add a small delay to ensure logs are properly initialized
     setTimeout(() => {
-      compileBlocklist().then(() => {
-        log("Initial compilation completed");
-        consecutiveFailures = 0;
-      }).catch(error => {
-        log(`Initial compilation failed: ${error}`);
-        consecutiveFailures++;
-      });
+      void runCompilation("startup");
     }, 1000);
   }
   
-  // Schedule the job with error handling and backoff
-  const job = cron.schedule(cronExpression, async () => {
-    log("Running scheduled blocklist update...");
-    
-    // Implement exponential backoff if there are failures
-    const backoffMultiplier = Math.min(Math.pow(2, consecutiveFailures), 24); // Max 24 hour backoff
-    
-    try {
-      // If we've failed too many times in a row, log but don't try again
-      if (consecutiveFailures >= MAX_FAILURES) {
-        log(`Skipping compilation after ${consecutiveFailures} consecutive failures. Manual intervention required.`);
-        return;
-      }
-      
-      // If we had a previous failure, wait with exponential backoff
-      if (consecutiveFailures > 0) {
-        log(`Waiting ${backoffMultiplier} hours before retrying after previous failure...`);
-        return; // Skip this attempt, we'll try again later
-      }
-      
-      await compileBlocklist();
-      log("Blocklist update completed successfully");
-      consecutiveFailures = 0; // Reset on success
-    } catch (error) {
-      log(`Blocklist update failed: ${error}`);
-      consecutiveFailures++;
-      
-      if (consecutiveFailures >= MAX_FAILURES) {
-        log(`Reached maximum consecutive failures (${MAX_FAILURES}). Scheduler will stop attempting compilations.`);
-      }
-    }
-  });
-  
-  log("Scheduler has been started");
+  scheduleNextRun(new Date());
+  persistState();
+  log.info("Scheduler has been started");
   
-  return job;
+  return {
+    stop() {
+      clearTimeout(timers.schedule);
+      timers.schedule = undefined;
+      cancelRetry();
+      nextScheduledRun = null;
+      persistState();
+      activeSchedule = null;
+      log.info("Scheduler stopped");
+    },
+    runNow() {
+      return runCompilation("manual");
+    }
+  };
 }
 
 // Execute scheduler if run directly
 if (import.meta.url === `file://${process.argv[1]}`) {
-  // Default to midnight (0 0 * * *), or use custom schedule if provided
-  const schedule = process.env.CRON_SCHEDULE || "0 0 * * *";
+  // Print the state of the running scheduler and exit
+  if (process.argv.includes("--status")) {
+    const state = readSchedulerState();
+    console.log(state ? JSON.stringify(state, null, 2) : "No scheduler state found");
+    process.exit(state ? 0 : 1);
+  }
+  
+  // CRON_SCHEDULE overrides the updateInterval from config.json
+  const schedule = process.env.CRON_SCHEDULE || undefined;
   
   try {
-    const job = startScheduler(schedule);
+    const scheduler = startScheduler(schedule);
     
     // Handle termination signals
     process.on("SIGINT", () => {
-      log("Received SIGINT, stopping scheduler...");
-      job.stop();
-      process.exit(0);
+      log.info("Received SIGINT, stopping scheduler...");
+      scheduler.stop();
+      flushLogs().finally(() => process.exit(0));
     });
     
     process.on("SIGTERM", () => {
-      log("Received SIGTERM, stopping scheduler...");
-      job.stop();
-      process.exit(0);
+      log.info("Received SIGTERM, stopping scheduler...");
+      scheduler.stop();
+      flushLogs().finally(() => process.exit(0));
     });
-    
-    // Log when the scheduled job runs
-    log(`Scheduler started with schedule: ${schedule}`);
   } catch (error) {
-    log(`Failed to start scheduler: ${error}`);
-    process.exit(1);
+    log.error("Failed to start scheduler", { error });
+    flushLogs().finally(() => process.exit(1));
   }
-} 
\ No newline at end of file
+}
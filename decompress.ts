@@ -0,0 +1,335 @@
+import zlib from "zlib";
+import { Readable, pipeline } from "stream";
+
+/**
+ * Largest source size in bytes after decompression unless `maxSize` overrides it (100MB)
+ */
+export const DEFAULT_MAX_SOURCE_SIZE = 100 * 1024 * 1024;
+
+/**
+ * Bytes inspected to recognise a format; tar's magic sits at offset 257
+ */
+const SNIFF_LENGTH = 262;
+
+/**
+ * Signatures of a zip archive's first local file header and of an empty archive
+ */
+const ZIP_SIGNATURES = [0x04034b50, 0x06054b50];
+
+/**
+ * How a source's payload is encoded
+ */
+type PayloadFormat = "plain" | "gzip" | "deflate" | "brotli" | "zip" | "tar";
+
+/**
+ * What is known about a payload besides its bytes
+ */
+export interface DecodeOptions {
+  /** URL or path, for error messages and the `.br` extension */
+  location: string;
+  contentType?: string | null;
+  /** File to read from a zip or tar archive; optional when the archive holds a single file */
+  member?: string;
+  maxSize?: number;
+}
+
+/**
+ * One file in an archive
+ */
+interface ArchiveEntry {
+  name: string;
+  /** Reads the entry's content, enforcing the size limit */
+  read(): Promise<Buffer>;
+}
+
+/**
+ * Whether data starts with a ustar tar header
+ */
+function isTar(data: Buffer): boolean {
+  return data.length >= SNIFF_LENGTH && data.toString("latin1", 257, 262) === "ustar";
+}
+
+/**
+ * Whether data starts with a zlib header: deflate method, and the first two bytes form a multiple of 31
+ */
+function isZlibHeader(data: Buffer): boolean {
+  return data.length >= 2 && (data[0] & 0x0f) === 8 && (data[0] >> 4) <= 7 && data.readUInt16BE(0) % 31 === 0;
+}
+
+/**
+ * Whether the start of a zlib stream decompresses without errors, flushing what a truncated stream allows
+ */
+function inflatesCleanly(head: Buffer): boolean {
+  try {
+    zlib.inflateSync(head, { finishFlush: zlib.constants.Z_SYNC_FLUSH });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Recognise a payload by its first bytes, falling back to the content type and extension
+ */
+function detectFormat(head: Buffer, contentType: string, location: string): PayloadFormat {
+  if (head.length >= 2 && head[0] === 0x1f && head[1] === 0x8b) {
+    return "gzip";
+  }
+  if (head.length >= 4 && ZIP_SIGNATURES.includes(head.readUInt32LE(0))) {
+    return "zip";
+  }
+  if (isTar(head)) {
+    return "tar";
+  }
+  if (/deflate|zlib/.test(contentType) || /\.(zz|deflate)(\?|$)/.test(location)) {
+    return "deflate";
+  }
+  // Two bytes are too weak a signature on their own: plenty of plain lists start with a valid zlib header
+  if (isZlibHeader(head) && inflatesCleanly(head)) {
+    return "deflate";
+  }
+  // Brotli has no magic bytes
+  if (contentType.includes("brotli") || /\.br(\?|$)/.test(location)) {
+    return "brotli";
+  }
+  return "plain";
+}
+
+/**
+ * Read the first bytes of a stream, returning them and a stream that still yields everything
+ */
+async function peek(stream: AsyncIterable<Buffer | string>, length: number): Promise<[Buffer, Readable]> {
+  const iterator = stream[Symbol.asyncIterator]();
+  const chunks: Buffer[] = [];
+  let size = 0;
+  let done = false;
+  while (size < length) {
+    const next = await iterator.next();
+    if (next.done) {
+      done = true;
+      break;
+    }
+    const chunk = Buffer.isBuffer(next.value) ? next.value : Buffer.from(next.value);
+    chunks.push(chunk);
+    size += chunk.length;
+  }
+
+  const head = Buffer.concat(chunks);
+  const rest = Readable.from((async function* () {
+    yield head;
+    while (!done) {
+      const next = await iterator.next();
+      if (next.done) {
+        return;
+      }
+      yield Buffer.isBuffer(next.value) ? next.value : Buffer.from(next.value);
+    }
+  })());
+  return [head, rest];
+}
+
+/**
+ * Read a stream into memory, failing as soon as it grows past the limit
+ */
+async function collect(stream: Readable, maxSize: number, location: string): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of stream) {
+    size += chunk.length;
+    if (size > maxSize) {
+      stream.destroy();
+      throw new Error(`${location} is larger than ${maxSize} bytes once decompressed`);
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Decompress a stream, stopping at the size limit so a small bomb cannot expand without bound
+ */
+function inflate(input: Readable, decompressor: zlib.Gunzip | zlib.Inflate | zlib.InflateRaw | zlib.BrotliDecompress, maxSize: number, location: string): Promise<Buffer> {
+  const output = pipeline(input, decompressor, () => {
+    // Errors surface through the iteration in collect()
+  });
+  return collect(output, maxSize, location);
+}
+
+/**
+ * Entries of a zip archive, read from its central directory
+ */
+function zipEntries(archive: Buffer, maxSize: number, location: string): ArchiveEntry[] {
+  // The end of central directory record is in the last 64KB, followed by an optional comment
+  let end = -1;
+  for (let offset = archive.length - 22; offset >= Math.max(0, archive.length - 65557); offset--) {
+    if (archive.readUInt32LE(offset) === 0x06054b50) {
+      end = offset;
+      break;
+    }
+  }
+  if (end === -1) {
+    throw new Error(`${location} is not a valid zip archive`);
+  }
+
+  const entries: ArchiveEntry[] = [];
+  const count = archive.readUInt16LE(end + 10);
+  let offset = archive.readUInt32LE(end + 16);
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > archive.length || archive.readUInt32LE(offset) !== 0x02014b50) {
+      throw new Error(`${location} has a corrupt zip central directory`);
+    }
+    const flags = archive.readUInt16LE(offset + 8);
+    const method = archive.readUInt16LE(offset + 10);
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const extraLength = archive.readUInt16LE(offset + 30);
+    const commentLength = archive.readUInt16LE(offset + 32);
+    const headerOffset = archive.readUInt32LE(offset + 42);
+    const name = archive.toString("utf-8", offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith("/")) {
+      continue;
+    }
+    entries.push({
+      name,
+      read: async () => {
+        if (flags & 0x1) {
+          throw new Error(`${name} in ${location} is encrypted`);
+        }
+        if (compressedSize === 0xffffffff || headerOffset === 0xffffffff) {
+          throw new Error(`${name} in ${location} is a zip64 entry, which is not supported`);
+        }
+        if (headerOffset + 30 > archive.length || archive.readUInt32LE(headerOffset) !== 0x04034b50) {
+          throw new Error(`${location} has a corrupt zip entry ${name}`);
+        }
+        const dataStart = headerOffset + 30 + archive.readUInt16LE(headerOffset + 26) + archive.readUInt16LE(headerOffset + 28);
+        const data = archive.subarray(dataStart, dataStart + compressedSize);
+        if (method === 0) {
+          if (data.length > maxSize) {
+            throw new Error(`${location} is larger than ${maxSize} bytes once decompressed`);
+          }
+          return data;
+        }
+        if (method === 8) {
+          return inflate(Readable.from([data]), zlib.createInflateRaw(), maxSize, location);
+        }
+        throw new Error(`${name} in ${location} uses unsupported zip compression method ${method}`);
+      }
+    });
+  }
+  return entries;
+}
+
+/**
+ * Read a NUL-terminated string from a tar header field
+ */
+function tarString(header: Buffer, start: number, length: number): string {
+  const field = header.subarray(start, start + length);
+  const end = field.indexOf(0);
+  return field.toString("utf-8", 0, end === -1 ? field.length : end);
+}
+
+/**
+ * Regular files in a tar archive, with ustar prefixes, GNU long names and pax paths resolved
+ */
+function tarEntries(archive: Buffer, location: string): ArchiveEntry[] {
+  const entries: ArchiveEntry[] = [];
+  let longName: string | null = null;
+  let offset = 0;
+  while (offset + 512 <= archive.length) {
+    const header = archive.subarray(offset, offset + 512);
+    if (header.every(byte => byte === 0)) {
+      break;
+    }
+    const size = parseInt(tarString(header, 124, 12).trim() || "0", 8);
+    if (Number.isNaN(size)) {
+      throw new Error(`${location} has a corrupt tar header`);
+    }
+    // Old tar writers leave the type of regular files as NUL
+    const type = String.fromCharCode(header[156] || 0x30);
+    const dataStart = offset + 512;
+    const data = archive.subarray(dataStart, dataStart + size);
+    offset = dataStart + Math.ceil(size / 512) * 512;
+
+    if (type === "L") {
+      longName = tarString(data, 0, data.length);
+      continue;
+    }
+    if (type === "x") {
+      const path = /(?:^|\n)\d+ path=([^\n]*)\n/.exec(data.toString("utf-8"));
+      longName = path ? path[1] : longName;
+      continue;
+    }
+
+    const prefix = isTar(header) ? tarString(header, 345, 155) : "";
+    const name = longName ?? (prefix ? `${prefix}/${tarString(header, 0, 100)}` : tarString(header, 0, 100));
+    longName = null;
+    if (type === "0") {
+      entries.push({ name, read: async () => data });
+    }
+  }
+  return entries;
+}
+
+/**
+ * Pick the configured member of an archive, or its only file
+ */
+async function readMember(entries: ArchiveEntry[], member: string | undefined, location: string): Promise<Buffer> {
+  const normalize = (name: string) => name.replace(/^\.?\//, "");
+  if (member) {
+    const entry = entries.find(candidate => normalize(candidate.name) === normalize(member));
+    if (!entry) {
+      throw new Error(`${location} has no member ${member}; it contains ${entries.map(candidate => candidate.name).join(", ") || "no files"}`);
+    }
+    return entry.read();
+  }
+  if (entries.length !== 1) {
+    throw new Error(`${location} contains ${entries.length} files; set member to one of: ${entries.map(candidate => candidate.name).join(", ")}`);
+  }
+  return entries[0].read();
+}
+
+/**
+ * Turn a source's payload into text: plain text is read as is, gzip, deflate and brotli are
+ * decompressed as they stream in, and the configured member is taken from zip and tar archives.
+ * Every path stops at `maxSize` bytes of output.
+ */
+export async function decodeSource(body: AsyncIterable<Buffer | string> | null, options: DecodeOptions): Promise<string> {
+  if (!body) {
+    return "";
+  }
+  const maxSize = options.maxSize ?? DEFAULT_MAX_SOURCE_SIZE;
+  const contentType = (options.contentType ?? "").toLowerCase();
+  const [head, stream] = await peek(body, SNIFF_LENGTH);
+
+  const format = detectFormat(head, contentType, options.location);
+  let payload: Buffer;
+  switch (format) {
+    case "gzip":
+      payload = await inflate(stream, zlib.createGunzip(), maxSize, options.location);
+      break;
+    case "deflate":
+      payload = await inflate(stream, zlib.createInflate(), maxSize, options.location);
+      break;
+    case "brotli":
+      payload = await inflate(stream, zlib.createBrotliDecompress(), maxSize, options.location);
+      break;
+    case "zip": {
+      // The central directory is at the end, so the archive itself is read first
+      const archive = await collect(stream, maxSize, options.location);
+      payload = await readMember(zipEntries(archive, maxSize, options.location), options.member, options.location);
+      return payload.toString("utf-8");
+    }
+    default:
+      payload = await collect(stream, maxSize, options.location);
+  }
+
+  // A gzipped tar archive only shows its tar header once decompressed
+  if (isTar(payload)) {
+    payload = await readMember(tarEntries(payload, options.location), options.member, options.location);
+  } else if (options.member) {
+    throw new Error(`${options.location} is not a zip or tar archive, so it has no member ${options.member}`);
+  }
+  return payload.toString("utf-8");
+}
@@ -0,0 +1,216 @@
+import fetch, { Response } from "node-fetch";
+import { AbortController } from "abort-controller";
+import { logger } from "./logger.js";
+
+const log = logger.child({ component: "fetcher" });
+
+/**
+ * Default fetch timeout in milliseconds - reduced for fail-fast behavior
+ */
+export const FETCH_TIMEOUT = 10000; // 10 seconds instead of 30
+
+/**
+ * Default number of retries after the first attempt
+ */
+export const DEFAULT_RETRIES = 2;
+
+/**
+ * Default base delay in milliseconds for exponential backoff
+ */
+export const DEFAULT_RETRY_DELAY = 1000;
+
+/**
+ * Longest delay we are willing to wait between attempts, including Retry-After
+ */
+const MAX_RETRY_DELAY = 60000;
+
+/**
+ * Options for a single fetch with retries
+ */
+export interface FetchOptions {
+  headers?: Record<string, string>;
+  retries?: number;
+  retryDelay?: number;
+}
+
+/**
+ * Error from a single fetch attempt, marked with whether it is worth retrying
+ */
+class FetchAttemptError extends Error {
+  constructor(message: string, readonly retryable: boolean, readonly retryAfterMs?: number) {
+    super(message);
+    this.name = "FetchAttemptError";
+  }
+}
+
+/**
+ * Parse a Retry-After header given either in seconds or as an HTTP date
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Exponential backoff with jitter for the given retry number (1-based)
+ */
+function backoffDelay(retry: number, baseDelay: number): number {
+  const exponential = baseDelay * Math.pow(2, retry - 1);
+  const jitter = Math.random() * baseDelay;
+  return Math.min(exponential + jitter, MAX_RETRY_DELAY);
+}
+
+/**
+ * Error codes of a connection that broke while the body was streaming
+ */
+const TRANSIENT_ERROR_CODES = new Set(["ECONNRESET", "ECONNABORTED", "EPIPE", "ETIMEDOUT", "ERR_STREAM_PREMATURE_CLOSE"]);
+
+/**
+ * Whether an error from reading a body is a network failure rather than bad content
+ */
+function isTransientError(error: unknown): boolean {
+  if (!(error instanceof Error)) {
+    return false;
+  }
+  const code = (error as NodeJS.ErrnoException).code;
+  return error.name === "FetchError" || error.name === "AbortError" || (code !== undefined && TRANSIENT_ERROR_CODES.has(code));
+}
+
+/**
+ * A response together with its body, read while the request's deadline was running
+ */
+export interface FetchedBody<T> {
+  response: Response;
+  body: T;
+}
+
+/**
+ * Make a single request and read its body with one timeout, classifying failures as retryable or not.
+ * Errors from `read` that are not network failures, such as a corrupt archive, are thrown as they are.
+ */
+async function fetchOnce<T>(
+  url: string,
+  timeoutMs: number,
+  headers: Record<string, string>,
+  read: (response: Response) => Promise<T>
+): Promise<FetchedBody<T>> {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timeoutId = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  
+  let response: Response | undefined;
+  try {
+    response = await fetch(url, {
+      signal: controller.signal,
+      headers: {
+        "User-Agent": "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/96.0.4664.110 Safari/537.36",
+        ...headers
+      }
+    });
+    
+    // 304 is expected when conditional request headers were sent
+    if (response.status !== 304) {
+      if (!response.ok) {
+        // Only rate limiting and server errors are worth another attempt
+        const retryable = response.status === 429 || response.status >= 500;
+        throw new FetchAttemptError(
+          `HTTP error ${response.status}: ${response.statusText} for ${url}`,
+          retryable,
+          parseRetryAfter(response.headers.get('retry-after'))
+        );
+      }
+      
+      const contentType = response.headers.get('content-type');
+      // Compressed feeds and archives arrive as application/* or, from some object stores, binary/octet-stream
+      if (contentType && !contentType.includes('text/') && !contentType.includes('application/') && !contentType.includes('binary/octet-stream')) {
+        throw new FetchAttemptError(`Invalid content type '${contentType}' for ${url}. Expected text content or an archive.`, false);
+      }
+    }
+    
+    // The deadline keeps running until the body is read, so a server that stalls mid-body cannot hang the caller
+    return { response, body: await read(response) };
+  } catch (fetchError) {
+    if (fetchError instanceof FetchAttemptError) {
+      throw fetchError;
+    }
+    if (timedOut) {
+      throw new FetchAttemptError(`Request timed out after ${timeoutMs}ms`, true);
+    }
+    const errorMessage = fetchError instanceof Error ? fetchError.message : String(fetchError);
+    // Network-level failures such as connection resets are transient, also while the body streams in
+    if (!response || isTransientError(fetchError)) {
+      throw new FetchAttemptError(errorMessage, true);
+    }
+    throw fetchError;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Fetch with timeout, TLS validation and retries with exponential backoff.
+ * `read` consumes the body under the same timeout, and a body that stalls or breaks off counts as a failed attempt.
+ */
+export async function fetchAndRead<T>(
+  url: string,
+  read: (response: Response) => Promise<T>,
+  timeoutMs = FETCH_TIMEOUT,
+  options: FetchOptions = {}
+): Promise<FetchedBody<T>> {
+  if (!url.startsWith('https://')) {
+    throw new Error("Only HTTPS URLs are allowed");
+  }
+  
+  const retries = Math.max(0, options.retries ?? DEFAULT_RETRIES);
+  const retryDelay = options.retryDelay ?? DEFAULT_RETRY_DELAY;
+  const attempts = retries + 1;
+  
+  for (let attempt = 1; ; attempt++) {
+    const attemptStart = Date.now();
+    try {
+      const fetched = await fetchOnce(url, timeoutMs, options.headers ?? {}, read);
+      log.debug(`Fetch attempt ${attempt}/${attempts} for ${url}: HTTP ${fetched.response.status} in ${Date.now() - attemptStart}ms`);
+      return fetched;
+    } catch (error) {
+      if (!(error instanceof FetchAttemptError)) {
+        throw error;
+      }
+      log.debug(`Fetch attempt ${attempt}/${attempts} for ${url} failed in ${Date.now() - attemptStart}ms: ${error.message}`);
+      
+      if (!error.retryable || attempt >= attempts) {
+        throw new Error(`Failed to fetch ${url}: ${error.message}`);
+      }
+      
+      if (error.retryAfterMs !== undefined && error.retryAfterMs > MAX_RETRY_DELAY) {
+        throw new Error(`Failed to fetch ${url}: ${error.message} (Retry-After of ${Math.round(error.retryAfterMs / 1000)}s is too long to wait)`);
+      }
+      
+      const delay = error.retryAfterMs ?? backoffDelay(attempt, retryDelay);
+      log.debug(`Retrying ${url} in ${Math.round(delay)}ms`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
+
+/**
+ * Fetch with timeout, TLS validation and retries.
+ * The body is buffered under the timeout, so the returned response can be read without waiting on the network.
+ */
+export async function fetchWithTimeout(
+  url: string,
+  timeoutMs = FETCH_TIMEOUT,
+  options: FetchOptions = {}
+): Promise<Response> {
+  const { response, body } = await fetchAndRead(url, async response => Buffer.from(await response.arrayBuffer()), timeoutMs, options);
+  return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+}
@@ -0,0 +1,34 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+
+/**
+ * Secure the path to prevent path traversal attacks
+ */
+export function securePath(filePath: string): string {
+  const normalizedPath = path.normalize(filePath);
+  const resolvedPath = path.resolve(normalizedPath);
+  const cwdPath = path.resolve(process.cwd());
+  
+  if (!resolvedPath.startsWith(cwdPath)) {
+    throw new Error("Path traversal attempt detected");
+  }
+  
+  return resolvedPath;
+}
+
+/**
+ * Safely write to a file with proper permissions
+ */
+export function secureWriteFile(filePath: string, data: string): void {
+  const securedPath = securePath(filePath);
+  const tempFileName = `${securedPath}.${crypto.randomBytes(8).toString('hex')}.tmp`;
+  
+  fs.writeFileSync(tempFileName, data, { 
+    encoding: 'utf-8',
+    mode: 0o644,
+    flag: 'wx'
+  });
+  
+  fs.renameSync(tempFileName, securedPath);
+}
@@ -0,0 +1,208 @@
+import fs from "fs";
+import { securePath } from "./files.js";
+import { fetchWithTimeout } from "./fetcher.js";
+import { readSourceCache, writeSourceCache } from "./cache.js";
+import { isComment, ruleHostname } from "./transformations.js";
+import { logger } from "./logger.js";
+
+const log = logger.child({ component: "filters" });
+
+/**
+ * Exclusion and inclusion settings, accepted both globally and per source
+ */
+export interface FilterPatterns {
+  exclusions?: string[];
+  exclusions_sources?: string[];
+  inclusions?: string[];
+  inclusions_sources?: string[];
+}
+
+/**
+ * Outcome of applying exclusions and inclusions to a list of rules
+ */
+export interface FilterResult {
+  rules: string[];
+  /** Number of rules removed by each exclusion pattern */
+  excludedBy: Map<string, number>;
+  /** Number of rules removed because no inclusion pattern matched */
+  notIncluded: number;
+}
+
+/**
+ * A compiled set of patterns that can be matched against rules
+ */
+interface PatternMatcher {
+  /** Return the first pattern matching the rule, or null */
+  match(rule: string): string | null;
+  size: number;
+}
+
+/**
+ * Strip adblock decorations so `||example.com^` and `example.com` mean the same pattern
+ */
+function normalizeDomainPattern(pattern: string): string {
+  return pattern.replace(/^\|\|/, "").replace(/\^$/, "").toLowerCase();
+}
+
+/**
+ * Convert a wildcard pattern to an anchored regular expression
+ */
+function wildcardToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*");
+  return new RegExp(`^${escaped}$`, "i");
+}
+
+/**
+ * Compile patterns into a matcher.
+ * Plain domains match a rule's hostname exactly, wildcards match the hostname (or the
+ * whole rule when it has no hostname), and `/regex/` patterns match the whole rule.
+ */
+function compilePatterns(patterns: string[]): PatternMatcher {
+  const domains = new Map<string, string>();
+  const expressions: { pattern: string; regex: RegExp; wholeRule: boolean }[] = [];
+
+  for (const raw of patterns) {
+    const pattern = raw.trim();
+    if (pattern.length === 0 || isComment(pattern)) {
+      continue;
+    }
+
+    if (pattern.length > 2 && pattern.startsWith("/") && pattern.endsWith("/")) {
+      try {
+        expressions.push({ pattern, regex: new RegExp(pattern.slice(1, -1), "i"), wholeRule: true });
+      } catch (error) {
+        throw new Error(`Invalid regular expression in filter pattern "${pattern}": ${error instanceof Error ? error.message : String(error)}`);
+      }
+      continue;
+    }
+
+    const normalized = normalizeDomainPattern(pattern);
+    if (normalized.includes("*")) {
+      expressions.push({ pattern, regex: wildcardToRegExp(normalized), wholeRule: false });
+    } else if (!domains.has(normalized)) {
+      domains.set(normalized, pattern);
+    }
+  }
+
+  return {
+    size: domains.size + expressions.length,
+    match(rule: string): string | null {
+      const hostname = ruleHostname(rule);
+      if (hostname) {
+        const domainPattern = domains.get(hostname);
+        if (domainPattern) {
+          return domainPattern;
+        }
+      }
+
+      for (const expression of expressions) {
+        const subject = expression.wholeRule || !hostname ? rule : hostname;
+        if (expression.regex.test(subject)) {
+          return expression.pattern;
+        }
+      }
+      return null;
+    }
+  };
+}
+
+/**
+ * Load patterns from a local file (relative to the working directory) or an HTTPS URL.
+ * Remote lists fall back to their cached copy when they cannot be fetched.
+ */
+async function loadPatternSource(location: string, offline: boolean): Promise<string[]> {
+  if (!location.includes("://")) {
+    const filePath = securePath(location);
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`Filter list not found: ${location}`);
+    }
+    return fs.readFileSync(filePath, "utf-8").split("\n");
+  }
+
+  const cached = readSourceCache(location);
+  if (offline) {
+    if (!cached) {
+      throw new Error(`No cached copy of filter list ${location} available for an offline compile`);
+    }
+    return cached.body.split("\n");
+  }
+
+  try {
+    const response = await fetchWithTimeout(location);
+    const content = await response.text();
+    writeSourceCache(location, content, {
+      etag: response.headers.get("etag"),
+      lastModified: response.headers.get("last-modified")
+    });
+    return content.split("\n");
+  } catch (error) {
+    if (!cached) {
+      throw error;
+    }
+    log.warn(`Failed to fetch filter list ${location}, using cached copy from ${cached.fetchedAt}`, { error });
+    return cached.body.split("\n");
+  }
+}
+
+/**
+ * Collect inline patterns and patterns from all listed files or URLs
+ */
+async function collectPatterns(inline: string[] = [], locations: string[] = [], offline: boolean): Promise<string[]> {
+  const patterns = [...inline];
+  for (const location of locations) {
+    const loaded = await loadPatternSource(location, offline);
+    log.debug(`Loaded ${loaded.length} lines from filter list ${location}`);
+    patterns.push(...loaded);
+  }
+  return patterns;
+}
+
+/**
+ * Compiled exclusions and inclusions for one scope (a source or the whole list)
+ */
+export interface CompiledFilters {
+  exclusions: PatternMatcher;
+  inclusions: PatternMatcher;
+}
+
+/**
+ * Load and compile the exclusions and inclusions for one scope
+ */
+export async function loadFilters(settings: FilterPatterns, offline = false): Promise<CompiledFilters | null> {
+  const exclusions = compilePatterns(await collectPatterns(settings.exclusions, settings.exclusions_sources, offline));
+  const inclusions = compilePatterns(await collectPatterns(settings.inclusions, settings.inclusions_sources, offline));
+  if (exclusions.size === 0 && inclusions.size === 0) {
+    return null;
+  }
+  return { exclusions, inclusions };
+}
+
+/**
+ * Remove excluded rules and, when inclusions are set, every rule that no inclusion matches.
+ * Comments and empty lines are always kept.
+ */
+export function applyFilters(rules: string[], filters: CompiledFilters): FilterResult {
+  const result: FilterResult = { rules: [], excludedBy: new Map(), notIncluded: 0 };
+
+  for (const rule of rules) {
+    if (rule.trim().length === 0 || isComment(rule)) {
+      result.rules.push(rule);
+      continue;
+    }
+
+    const excludedBy = filters.exclusions.size > 0 ? filters.exclusions.match(rule) : null;
+    if (excludedBy) {
+      result.excludedBy.set(excludedBy, (result.excludedBy.get(excludedBy) ?? 0) + 1);
+      continue;
+    }
+
+    if (filters.inclusions.size > 0 && !filters.inclusions.match(rule)) {
+      result.notIncluded++;
+      continue;
+    }
+
+    result.rules.push(rule);
+  }
+
+  return result;
+}
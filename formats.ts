@@ -0,0 +1,179 @@
+import { join } from "path";
+import { isComment, plainBlockedDomains } from "./transformations.js";
+
+/**
+ * Output formats the compiled rule set can be rendered into
+ */
+export type OutputFormat = "adguard" | "hosts" | "dnsmasq" | "unbound" | "rpz" | "domains";
+
+/**
+ * Every supported output format
+ */
+export const OUTPUT_FORMATS: readonly OutputFormat[] = ["adguard", "hosts", "dnsmasq", "unbound", "rpz", "domains"];
+
+/**
+ * Default file name for each output format, relative to the working directory
+ */
+export const DEFAULT_OUTPUT_FILES: Record<OutputFormat, string> = {
+  adguard: "adguard-blocklist.txt",
+  hosts: "blocklist-hosts.txt",
+  dnsmasq: "blocklist-dnsmasq.conf",
+  unbound: "blocklist-unbound.conf",
+  rpz: "blocklist-rpz.zone",
+  domains: "blocklist-domains.txt"
+};
+
+/**
+ * An output file entry in config.json
+ */
+export interface OutputConfig {
+  format: OutputFormat;
+  path?: string;
+}
+
+/**
+ * Content type served for each format
+ */
+export const OUTPUT_CONTENT_TYPES: Record<OutputFormat, string> = {
+  adguard: "text/plain; charset=utf-8",
+  hosts: "text/plain; charset=utf-8",
+  dnsmasq: "text/plain; charset=utf-8",
+  unbound: "text/plain; charset=utf-8",
+  rpz: "text/dns; charset=utf-8",
+  domains: "text/plain; charset=utf-8"
+};
+
+/**
+ * Resolve the configured outputs to absolute file paths, defaulting to the AdGuard format only
+ */
+export function resolveOutputFiles(outputs?: OutputConfig[]): Map<OutputFormat, string> {
+  const files = new Map<OutputFormat, string>();
+  for (const output of outputs ?? [{ format: "adguard" }]) {
+    files.set(output.format, join(process.cwd(), output.path ?? DEFAULT_OUTPUT_FILES[output.format]));
+  }
+  return files;
+}
+
+/**
+ * Resolve named lists to the absolute paths of their files, keyed by slug
+ */
+export function resolveListFiles(lists?: { slug: string }[]): Map<string, string> {
+  const files = new Map<string, string>();
+  for (const list of lists ?? []) {
+    files.set(list.slug, join(process.cwd(), "lists", `${list.slug}.txt`));
+  }
+  return files;
+}
+
+/**
+ * A rendered output file
+ */
+export interface RenderedOutput {
+  format: OutputFormat;
+  content: string;
+  /** Number of rules written */
+  ruleCount: number;
+  /** Number of rules the format cannot express */
+  dropped: number;
+}
+
+/**
+ * Comment prefix used by each format
+ */
+const COMMENT_PREFIX: Record<OutputFormat, string> = {
+  adguard: "!",
+  hosts: "#",
+  dnsmasq: "#",
+  unbound: "#",
+  rpz: ";",
+  domains: "#"
+};
+
+/**
+ * Formats that block only the exact names listed, not their subdomains
+ */
+export const EXACT_MATCH_FORMATS: ReadonlySet<OutputFormat> = new Set<OutputFormat>(["hosts", "domains"]);
+
+/**
+ * Render a single blocked domain in each domain-only format
+ */
+const DOMAIN_RENDERERS: Record<Exclude<OutputFormat, "adguard">, (domain: string) => string[]> = {
+  hosts: domain => [`0.0.0.0 ${domain}`],
+  dnsmasq: domain => [`address=/${domain}/`],
+  unbound: domain => [`local-zone: "${domain}." always_nxdomain`],
+  rpz: domain => [`${domain} CNAME .`, `*.${domain} CNAME .`],
+  domains: domain => [domain]
+};
+
+/**
+ * Prefix header lines with the comment syntax of a format
+ */
+function renderHeader(format: OutputFormat, lines: string[]): string[] {
+  const prefix = COMMENT_PREFIX[format];
+  return [...lines.map(line => `${prefix} ${line}`), prefix];
+}
+
+/**
+ * Fixed preamble some formats need before any rules
+ */
+function renderPreamble(format: OutputFormat, serial: number): string[] {
+  switch (format) {
+    case "unbound":
+      return ["server:"];
+    case "rpz":
+      return [
+        "$TTL 300",
+        `@ IN SOA localhost. root.localhost. ${serial} 3600 600 86400 300`,
+        "  IN NS localhost."
+      ];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Render the compiled rules in the given format.
+ * Formats other than AdGuard can only express plain domain blocks, so rules with
+ * modifiers, exceptions, wildcards, regexes and IP addresses are dropped and counted.
+ */
+export function renderOutput(format: OutputFormat, rules: string[], header: string[], generatedAt = new Date()): RenderedOutput {
+  const meaningful = rules.filter(rule => rule.length > 0);
+
+  if (format === "adguard") {
+    return {
+      format,
+      content: [...renderHeader(format, header), ...rules].join("\n"),
+      ruleCount: meaningful.filter(rule => !isComment(rule)).length,
+      dropped: 0
+    };
+  }
+
+  const body: string[] = [];
+  let ruleCount = 0;
+  let dropped = 0;
+
+  for (const rule of meaningful) {
+    if (isComment(rule)) {
+      continue;
+    }
+    const domains = plainBlockedDomains(rule.trim());
+    if (!domains) {
+      dropped++;
+      continue;
+    }
+    for (const domain of domains) {
+      body.push(...DOMAIN_RENDERERS[format](domain));
+      ruleCount++;
+    }
+  }
+
+  const formatHeader = [
+    ...header,
+    `Format: ${format}`,
+    `Rules in this format: ${ruleCount}`,
+    `Rules not expressible in this format: ${dropped}`
+  ];
+  const serial = Math.floor(generatedAt.getTime() / 1000);
+  const content = [...renderHeader(format, formatHeader), ...renderPreamble(format, serial), ...body, ""].join("\n");
+  return { format, content, ruleCount, dropped };
+}
@@ -0,0 +1,127 @@
+import { isComment, validateRule } from "./transformations.js";
+import type { CompileReport, SourceReport } from "./status.js";
+import type { SourceType } from "./parsers.js";
+
+/**
+ * Guardrail settings from config.json
+ */
+export interface GuardrailSettings {
+  /** Largest allowed drop in total rules compared to the previous published build, in percent */
+  maxRuleDropPercent?: number;
+  /** Largest allowed growth in total rules compared to the previous published build, in percent */
+  maxRuleGrowthPercent?: number;
+  /** Largest allowed drop in the rules of any single source, in percent */
+  maxSourceDropPercent?: number;
+  /** Smallest share (0 to 1) of a source's entries that must be valid rules */
+  minValidLineRatio?: number;
+  /** Reject sources whose content looks like an HTML page */
+  detectHtml?: boolean;
+}
+
+/**
+ * Guardrails applied when config.json does not override them
+ */
+export const DEFAULT_GUARDRAILS: Required<GuardrailSettings> = {
+  maxRuleDropPercent: 50,
+  maxRuleGrowthPercent: 300,
+  maxSourceDropPercent: 75,
+  minValidLineRatio: 0.5,
+  detectHtml: true
+};
+
+/**
+ * Tags that only show up in HTML documents, e.g. a login page or an error page served with status 200
+ */
+const HTML_MARKERS = /<(!doctype\s+html|html[\s>]|head[\s>]|body[\s>]|title>|meta\s|script[\s>])/i;
+
+/**
+ * Source types whose documents use markup of their own, such as `<title>` in an RSS feed, so they are not sniffed for HTML
+ */
+const STRUCTURED_TYPES: ReadonlySet<SourceType> = new Set<SourceType>(["json", "xml"]);
+
+/**
+ * How much of the content to inspect for HTML markers
+ */
+const HTML_SNIFF_LENGTH = 4096;
+
+/**
+ * Fill in defaults for the configured guardrails
+ */
+export function resolveGuardrails(settings: GuardrailSettings = {}): Required<GuardrailSettings> {
+  return { ...DEFAULT_GUARDRAILS, ...settings };
+}
+
+/**
+ * Check that a source's content is a list at all.
+ * `entries` are the lines or records the source's parser took as rules and `rules` what it made of them.
+ * Returns the reason the content was rejected, or null if it looks fine.
+ */
+export function checkSourceContent(
+  type: SourceType,
+  content: string,
+  entries: number,
+  rules: string[],
+  settings: Required<GuardrailSettings>
+): string | null {
+  if (settings.detectHtml && !STRUCTURED_TYPES.has(type) && HTML_MARKERS.test(content.slice(0, HTML_SNIFF_LENGTH))) {
+    return "content looks like an HTML page, not a filter list";
+  }
+
+  if (entries === 0 || settings.minValidLineRatio <= 0) {
+    return null;
+  }
+
+  // The same definition of a valid rule as the source pipeline's own validation step
+  const validRules = rules.filter(rule => rule.trim().length > 0 && !isComment(rule)
+    && validateRule(rule, { allowIp: true, allowRemovableModifiers: true }).valid).length;
+  const ratio = validRules / entries;
+  if (ratio < settings.minValidLineRatio) {
+    return `only ${(ratio * 100).toFixed(1)}% of ${entries} entries are valid rules (minimum ${(settings.minValidLineRatio * 100).toFixed(1)}%)`;
+  }
+  return null;
+}
+
+/**
+ * Percentage change from one count to another, or null when there is nothing to compare against
+ */
+function percentChange(previous: number, current: number): number | null {
+  return previous > 0 ? ((current - previous) / previous) * 100 : null;
+}
+
+/**
+ * Compare a new build with the previous published one.
+ * Sources that failed this time are left to the source failure policy.
+ * Returns the reason for every tripped guardrail; an empty list means the build can be published.
+ */
+export function checkBuild(
+  ruleCount: number,
+  sources: SourceReport[],
+  previous: Pick<CompileReport, "ruleCount" | "sources"> | null,
+  settings: Required<GuardrailSettings>
+): string[] {
+  if (!previous || previous.ruleCount === null) {
+    return [];
+  }
+
+  const tripped: string[] = [];
+  const totalChange = percentChange(previous.ruleCount, ruleCount);
+  if (totalChange !== null && -totalChange > settings.maxRuleDropPercent) {
+    tripped.push(`total rules dropped from ${previous.ruleCount} to ${ruleCount} (${totalChange.toFixed(1)}%, limit -${settings.maxRuleDropPercent}%)`);
+  }
+  if (totalChange !== null && totalChange > settings.maxRuleGrowthPercent) {
+    tripped.push(`total rules grew from ${previous.ruleCount} to ${ruleCount} (+${totalChange.toFixed(1)}%, limit +${settings.maxRuleGrowthPercent}%)`);
+  }
+
+  for (const source of sources) {
+    const before = previous.sources.find(entry => entry.url === source.url);
+    if (!before || source.status === "failed") {
+      continue;
+    }
+    const change = percentChange(before.rules, source.rules);
+    if (change !== null && -change > settings.maxSourceDropPercent) {
+      tripped.push(`source ${source.name} dropped from ${before.rules} to ${source.rules} rules (${change.toFixed(1)}%, limit -${settings.maxSourceDropPercent}%)`);
+    }
+  }
+
+  return tripped;
+}
@@ -0,0 +1,171 @@
+import fs from "fs";
+import { join } from "path";
+import { securePath, secureWriteFile } from "./files.js";
+import { CompileReport } from "./status.js";
+import { logger } from "./logger.js";
+
+const log = logger.child({ component: "history" });
+
+/**
+ * Directory holding one JSON record per compile
+ */
+export const HISTORY_DIR = join(process.cwd(), "history");
+
+/**
+ * Number of records kept when `historyRetention` is not set
+ */
+export const DEFAULT_HISTORY_RETENTION = 30;
+
+/**
+ * Blocked domains of the last successful build, used to diff the next one against
+ */
+const DOMAINS_FILE = join(HISTORY_DIR, "domains.txt");
+
+/**
+ * Maximum number of added and removed domains listed in a record
+ */
+const DIFF_SAMPLE_SIZE = 100;
+
+/**
+ * Record files are named after the start time of their compile, so they sort chronologically
+ */
+const RECORD_FILE = /^\d{4}-\d{2}-\d{2}T[\d-]+Z\.json$/;
+
+/**
+ * Blocked domains added and removed since the previous successful build
+ */
+export interface DomainDiff {
+  added: number;
+  removed: number;
+  /** First added domains in alphabetical order, at most `DIFF_SAMPLE_SIZE` */
+  addedSample: string[];
+  removedSample: string[];
+}
+
+/**
+ * A compile report as stored in the history directory
+ */
+export interface HistoryRecord extends CompileReport {
+  id: string;
+  /** Null for failed compiles and for the first build */
+  diff: DomainDiff | null;
+}
+
+/**
+ * Compare two builds' blocked domains
+ */
+function diffDomains(previous: string[], current: string[]): DomainDiff {
+  const previousSet = new Set(previous);
+  const currentSet = new Set(current);
+  const added = current.filter(domain => !previousSet.has(domain)).sort();
+  const removed = previous.filter(domain => !currentSet.has(domain)).sort();
+  return {
+    added: added.length,
+    removed: removed.length,
+    addedSample: added.slice(0, DIFF_SAMPLE_SIZE),
+    removedSample: removed.slice(0, DIFF_SAMPLE_SIZE)
+  };
+}
+
+/**
+ * Blocked domains of the previous successful build, or null if there was none
+ */
+function readPreviousDomains(): string[] | null {
+  const filePath = securePath(DOMAINS_FILE);
+  if (!fs.existsSync(filePath)) {
+    return null;
+  }
+  return fs.readFileSync(filePath, "utf-8").split("\n").filter(domain => domain.length > 0);
+}
+
+/**
+ * Record file names, oldest first
+ */
+function listRecordFiles(): string[] {
+  if (!fs.existsSync(HISTORY_DIR)) {
+    return [];
+  }
+  return fs.readdirSync(HISTORY_DIR).filter(name => RECORD_FILE.test(name)).sort();
+}
+
+/**
+ * Delete the oldest records beyond the retention limit.
+ * The newest successful record is always kept: it is the baseline the guardrails compare the next build with.
+ */
+function pruneHistory(retention: number): void {
+  const files = listRecordFiles();
+  const lastPublished = [...files].reverse().find(name => readRecord(name)?.success);
+  for (const name of files.slice(0, Math.max(0, files.length - retention))) {
+    if (name === lastPublished) {
+      continue;
+    }
+    fs.unlinkSync(securePath(join(HISTORY_DIR, name)));
+    log.debug(`Pruned compile history record ${name}`);
+  }
+}
+
+/**
+ * Save a compile report to the history directory.
+ * `domains` are the blocked domains of a successful build and are diffed against the previous one.
+ * Failing to write history never fails the compile.
+ */
+export function writeHistoryRecord(report: CompileReport, domains: string[] | null, retention = DEFAULT_HISTORY_RETENTION): void {
+  try {
+    fs.mkdirSync(securePath(HISTORY_DIR), { mode: 0o755, recursive: true });
+
+    let diff: DomainDiff | null = null;
+    if (domains) {
+      const previous = readPreviousDomains();
+      diff = previous ? diffDomains(previous, domains) : null;
+      secureWriteFile(DOMAINS_FILE, domains.join("\n") + "\n");
+    }
+
+    const id = report.startedAt.replace(/[:.]/g, "-");
+    const record: HistoryRecord = { id, ...report, diff };
+    secureWriteFile(join(HISTORY_DIR, `${id}.json`), JSON.stringify(record, null, 2) + "\n");
+    log.debug(`Saved compile history record ${id}${diff ? ` (+${diff.added} / -${diff.removed} domains)` : ''}`);
+
+    pruneHistory(retention);
+  } catch (error) {
+    log.error("Failed to write compile history", { error });
+  }
+}
+
+/**
+ * Read one record, or null if it cannot be parsed
+ */
+function readRecord(name: string): HistoryRecord | null {
+  try {
+    return JSON.parse(fs.readFileSync(securePath(join(HISTORY_DIR, name)), "utf-8"));
+  } catch (error) {
+    log.warn(`Skipping unreadable history record ${name}`, { error });
+    return null;
+  }
+}
+
+/**
+ * Read history records, newest first
+ */
+export function readHistory(limit = DEFAULT_HISTORY_RETENTION): HistoryRecord[] {
+  const records: HistoryRecord[] = [];
+  for (const name of listRecordFiles().reverse().slice(0, limit)) {
+    const record = readRecord(name);
+    if (record) {
+      records.push(record);
+    }
+  }
+  return records;
+}
+
+/**
+ * The most recent successful, and therefore published, build
+ */
+export function readLastPublished(): HistoryRecord | null {
+  for (const name of listRecordFiles().reverse()) {
+    const record = readRecord(name);
+    if (record?.success) {
+      return record;
+    }
+  }
+  return null;
+}
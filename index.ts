@@ -1,31 +1,23 @@
 import { join } from "path";
 import fs from "fs";
-import path from "path";
-import { startScheduler } from "./cron.js";
+import { getSchedulerState, startScheduler } from "./cron.js";
 import startServer from "./server.js";
 import { compileBlocklist } from "./compile.js";
+import { securePath } from "./files.js";
+import { flushLogs, logger } from "./logger.js";
 
 // Configuration
 const PORT = Number(process.env.PORT) || 3000;
 const HOST = process.env.HOST || "localhost";
-const CRON_SCHEDULE = process.env.CRON_SCHEDULE || "0 0 * * *"; // Default: midnight
+const CRON_SCHEDULE = process.env.CRON_SCHEDULE || undefined; // Default: updateInterval from config.json
+
+const log = logger.child({ component: "app" });
 
 /**
- * Secure the path to prevent path traversal attacks
+ * Exit once buffered log lines have reached the log file
  */
-function securePath(filePath: string): string {
-  // Normalize the path to resolve any ../ or ./ components
-  const normalizedPath = path.normalize(filePath);
-  
-  // Ensure the path is within the current working directory
-  const resolvedPath = path.resolve(normalizedPath);
-  const cwdPath = path.resolve(process.cwd());
-  
-  if (!resolvedPath.startsWith(cwdPath)) {
-    throw new Error("Path traversal attempt detected");
-  }
-  
-  return resolvedPath;
+function exit(code: number): void {
+  flushLogs().finally(() => process.exit(code));
 }
 
 /**
@@ -42,7 +34,7 @@ function safeReadJson(filePath: string): any {
     const content = fs.readFileSync(securedPath, "utf-8");
     return JSON.parse(content);
   } catch (error) {
-    console.error(`Error reading JSON file ${filePath}: ${error}`);
+    log.error(`Error reading JSON file ${filePath}`, { error });
     return null;
   }
 }
@@ -51,25 +43,25 @@ function safeReadJson(filePath: string): any {
  * Main application entry point
  */
 async function main() {
-  console.log("Starting AdGuard Hostlist Compiler Application");
+  log.info("Starting AdGuard Hostlist Compiler Application");
   
   try {
     // Process cleanup handler
     const cleanupHandler = () => {
-      console.log("Shutting down application...");
-      process.exit(0);
+      log.info("Shutting down application...");
+      exit(0);
     };
     
     // Register signal handlers early
     process.on("SIGINT", cleanupHandler);
     process.on("SIGTERM", cleanupHandler);
     process.on("uncaughtException", (error) => {
-      console.error("Uncaught exception:", error);
-      process.exit(1);
+      log.error("Uncaught exception", { error });
+      exit(1);
     });
     process.on("unhandledRejection", (reason) => {
-      console.error("Unhandled rejection:", reason);
-      process.exit(1);
+      log.error("Unhandled rejection", { error: reason });
+      exit(1);
     });
     
     // Read config file
@@ -84,34 +76,34 @@ async function main() {
     }
     
     // Always compile a fresh blocklist
-    console.log("Compiling blocklist...");
+    log.info("Compiling blocklist...");
     try {
       await compileBlocklist();
     } catch (error) {
-      console.error("Failed to compile blocklist:", error);
+      log.error("Failed to compile blocklist", { error });
       throw new Error("Blocklist compilation failed - aborting startup");
     }
     
     // Start the cron scheduler for regular updates
-    console.log(`Starting scheduler with schedule: ${CRON_SCHEDULE}`);
+    log.info("Starting scheduler...");
     startScheduler(CRON_SCHEDULE);
     
     // Start the web server
     await startServer();
     
-    console.log("AdGuard Hostlist Compiler Application started successfully");
-    console.log(`Web server: http://${process.env.HOST || "localhost"}:${process.env.PORT || 3000}`);
-    console.log(`Scheduler: ${CRON_SCHEDULE}`);
+    log.info("AdGuard Hostlist Compiler Application started successfully");
+    log.info(`Web server: http://${process.env.HOST || "localhost"}:${process.env.PORT || 3000}`);
+    log.info(`Scheduler: ${getSchedulerState()?.schedule}, next run at ${getSchedulerState()?.nextRun}`);
   } catch (error) {
-    console.error("Failed to start application:", error);
-    process.exit(1);
+    log.error("Failed to start application", { error });
+    exit(1);
   }
 }
 
 // Run the application
 if (import.meta.url === `file://${process.argv[1]}`) {
   main().catch((error) => {
-    console.error("Application failed:", error);
-    process.exit(1);
+    log.error("Application failed", { error });
+    exit(1);
   });
 } 
\ No newline at end of file
@@ -0,0 +1,130 @@
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import { securePath } from "./files.js";
+import { DecodeOptions, decodeSource } from "./decompress.js";
+
+/**
+ * Wildcard in a local source path; `*` matches within a directory, `**` across directories
+ */
+const GLOB_WILDCARD = /\*/;
+
+/**
+ * The parts of a source entry needed to locate it
+ */
+interface SourceLocation {
+  name: string;
+  source?: string;
+  rules?: string[];
+}
+
+/**
+ * Location of a source: its URL or path, or `inline:<name>` for rules written in config.json
+ */
+export function sourceLocation(source: SourceLocation): string {
+  return source.source ?? `inline:${source.name}`;
+}
+
+/**
+ * Whether a location is a local path, glob or `file://` URL rather than a remote URL
+ */
+export function isLocalLocation(location: string): boolean {
+  return location.startsWith("file://") || !location.includes(":");
+}
+
+/**
+ * Absolute path of a local location, which must be inside the allowed directory
+ */
+function resolveLocalPath(location: string, allowedDir: string): string {
+  const filePath = securePath(location.startsWith("file://") ? fileURLToPath(location) : location);
+  const root = securePath(allowedDir);
+  if (filePath !== root && !filePath.startsWith(root + path.sep)) {
+    throw new Error(`Local source ${location} is outside the allowed directory ${allowedDir}`);
+  }
+  return filePath;
+}
+
+/**
+ * Turn the wildcard part of a glob into a regular expression over `/`-separated relative paths
+ */
+function globToRegExp(glob: string): RegExp {
+  let expression = "";
+  for (let i = 0; i < glob.length; i++) {
+    if (glob.startsWith("**/", i)) {
+      // Any number of directories, including none
+      expression += "(?:.*/)?";
+      i += 2;
+    } else if (glob.startsWith("**", i)) {
+      expression += ".*";
+      i += 1;
+    } else if (glob[i] === "*") {
+      expression += "[^/]*";
+    } else {
+      expression += glob[i].replace(/[.+?^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${expression}$`);
+}
+
+/**
+ * Files under a directory as `/`-separated relative paths, at most `maxDepth` levels deep.
+ * Symbolic links are not followed, so a glob cannot reach outside the directory.
+ */
+function listFiles(directory: string, maxDepth: number, prefix = ""): string[] {
+  const files: string[] = [];
+  for (const entry of fs.readdirSync(directory, { withFileTypes: true })) {
+    const relativePath = prefix + entry.name;
+    if (entry.isFile()) {
+      files.push(relativePath);
+    } else if (entry.isDirectory() && maxDepth > 1) {
+      files.push(...listFiles(path.join(directory, entry.name), maxDepth - 1, relativePath + "/"));
+    }
+  }
+  return files;
+}
+
+/**
+ * Every file matching a glob, in path order
+ */
+function expandGlob(location: string, allowedDir: string): string[] {
+  const pattern = (location.startsWith("file://") ? fileURLToPath(location) : path.resolve(location)).split(path.sep).join("/");
+  const segments = pattern.split("/");
+  const firstWildcard = segments.findIndex(segment => GLOB_WILDCARD.test(segment));
+  const baseDir = resolveLocalPath(segments.slice(0, firstWildcard).join("/") || "/", allowedDir);
+  if (!fs.existsSync(baseDir)) {
+    return [];
+  }
+
+  const glob = segments.slice(firstWildcard).join("/");
+  const matcher = globToRegExp(glob);
+  const maxDepth = glob.includes("**") ? Infinity : segments.length - firstWildcard;
+  return listFiles(baseDir, maxDepth)
+    .filter(relativePath => matcher.test(relativePath))
+    .sort()
+    .map(relativePath => path.join(baseDir, relativePath));
+}
+
+/**
+ * Read a local source: one file, or every file matching a glob joined in path order.
+ * Paths are relative to the working directory and must be inside `allowedDir`.
+ * Compressed files and archives are decoded like remote ones.
+ */
+export async function readLocalSource(location: string, allowedDir: string, decode: Omit<DecodeOptions, "location"> = {}): Promise<string> {
+  if (!GLOB_WILDCARD.test(location)) {
+    const filePath = resolveLocalPath(location, allowedDir);
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`Local source not found: ${location}`);
+    }
+    return decodeSource(fs.createReadStream(filePath), { ...decode, location: filePath });
+  }
+
+  const files = expandGlob(location, allowedDir);
+  if (files.length === 0) {
+    throw new Error(`No files match ${location}`);
+  }
+  const contents: string[] = [];
+  for (const filePath of files) {
+    contents.push(await decodeSource(fs.createReadStream(filePath), { ...decode, location: filePath }));
+  }
+  return contents.join("\n");
+}
@@ -0,0 +1,253 @@
+import fs from "fs";
+import { AsyncLocalStorage } from "async_hooks";
+import { basename, dirname, join } from "path";
+import { format } from "date-fns";
+import { securePath } from "./files.js";
+
+/**
+ * Log levels in increasing order of severity
+ */
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+/**
+ * Fields attached to a log entry, e.g. `{ source: "EasyList" }` or `{ error }`
+ */
+export type LogContext = Record<string, unknown>;
+
+/**
+ * Default log file, relative to the working directory; `LOG_FILE=none` disables file output
+ */
+const DEFAULT_LOG_FILE = "logs/georlist.log";
+
+/**
+ * Rotate the log file once it grows past this size (5MB) unless `LOG_MAX_SIZE` overrides it
+ */
+const DEFAULT_MAX_LOG_SIZE = 5 * 1024 * 1024;
+
+/**
+ * Number of rotated log files kept unless `LOG_MAX_FILES` overrides it
+ */
+const DEFAULT_MAX_LOG_FILES = 5;
+
+/**
+ * Context of the current compile run or request, inherited by everything it calls
+ */
+const contextStorage = new AsyncLocalStorage<LogContext>();
+
+/**
+ * Read a level from the environment, falling back to `info`
+ */
+function resolveLevel(value: string | undefined): LogLevel {
+  const level = value?.toLowerCase();
+  return level && level in LEVEL_ORDER ? level as LogLevel : "info";
+}
+
+/**
+ * Read a positive integer from the environment
+ */
+function positiveInteger(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+const settings = {
+  level: resolveLevel(process.env.LOG_LEVEL),
+  json: process.env.LOG_FORMAT?.toLowerCase() === "json",
+  file: process.env.LOG_FILE ?? DEFAULT_LOG_FILE,
+  maxSize: positiveInteger(process.env.LOG_MAX_SIZE, DEFAULT_MAX_LOG_SIZE),
+  maxFiles: positiveInteger(process.env.LOG_MAX_FILES, DEFAULT_MAX_LOG_FILES)
+};
+
+/**
+ * Appends log lines to a file without blocking, rotating it by size and pruning old rotations
+ */
+class FileSink {
+  private stream: fs.WriteStream | null = null;
+  private size = 0;
+  private rotating: Promise<void> | null = null;
+  private pending: string[] = [];
+
+  constructor(private readonly filePath: string, private readonly maxSize: number, private readonly maxFiles: number) {}
+
+  write(line: string): void {
+    if (this.rotating) {
+      this.pending.push(line);
+      return;
+    }
+
+    const stream = this.open();
+    stream.write(line);
+    this.size += Buffer.byteLength(line);
+    if (this.size > this.maxSize) {
+      this.rotate();
+    }
+  }
+
+  /**
+   * Wait until everything written so far has reached the file
+   */
+  async flush(): Promise<void> {
+    await this.rotating;
+    const stream = this.stream;
+    this.stream = null;
+    if (stream) {
+      await new Promise<void>(resolve => stream.end(resolve));
+    }
+  }
+
+  private open(): fs.WriteStream {
+    if (!this.stream) {
+      fs.mkdirSync(dirname(this.filePath), { mode: 0o755, recursive: true });
+      this.size = fs.existsSync(this.filePath) ? fs.statSync(this.filePath).size : 0;
+      this.stream = fs.createWriteStream(this.filePath, { flags: "a", mode: 0o644 });
+      this.stream.on("error", error => console.error(`Failed to write to log file ${this.filePath}:`, error));
+    }
+    return this.stream;
+  }
+
+  private rotate(): void {
+    const stream = this.stream;
+    this.stream = null;
+
+    this.rotating = (async () => {
+      await new Promise<void>(resolve => stream ? stream.end(resolve) : resolve());
+      await fs.promises.rename(this.filePath, `${this.filePath}.${format(new Date(), "yyyyMMdd-HHmmss-SSS")}`);
+
+      // Rotated files sort by their timestamp suffix; delete all but the newest
+      const directory = dirname(this.filePath);
+      const prefix = `${basename(this.filePath)}.`;
+      const rotated = (await fs.promises.readdir(directory)).filter(name => name.startsWith(prefix)).sort();
+      for (const name of rotated.slice(0, Math.max(0, rotated.length - this.maxFiles))) {
+        await fs.promises.unlink(join(directory, name));
+      }
+    })()
+      .catch(error => console.error(`Failed to rotate log file ${this.filePath}:`, error))
+      .finally(() => {
+        this.rotating = null;
+        const pending = this.pending;
+        this.pending = [];
+        for (const line of pending) {
+          this.write(line);
+        }
+      });
+  }
+}
+
+let fileSink: FileSink | null | undefined;
+
+/**
+ * The file sink, created on first use so importing the logger never touches the disk
+ */
+function getFileSink(): FileSink | null {
+  if (fileSink === undefined) {
+    fileSink = null;
+    if (settings.file && settings.file.toLowerCase() !== "none") {
+      try {
+        fileSink = new FileSink(securePath(settings.file), settings.maxSize, settings.maxFiles);
+      } catch (error) {
+        console.error(`Log file ${settings.file} is not usable, logging to the console only:`, error);
+      }
+    }
+  }
+  return fileSink;
+}
+
+/**
+ * Make errors and other values printable as JSON
+ */
+function serialize(value: unknown): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  return value;
+}
+
+/**
+ * Render one entry as a JSON line or as pretty text
+ */
+function formatEntry(level: LogLevel, message: string, context: LogContext, time: Date): string {
+  if (settings.json) {
+    const fields: LogContext = {};
+    for (const [key, value] of Object.entries(context)) {
+      fields[key] = serialize(value);
+    }
+    return JSON.stringify({ time: time.toISOString(), level, msg: message, ...fields });
+  }
+
+  const fields = Object.entries(context)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => {
+      const printable = value instanceof Error ? value.message : value;
+      return `${key}=${typeof printable === "string" ? printable : JSON.stringify(printable)}`;
+    });
+  const stack = context.error instanceof Error && level === "error" && context.error.stack
+    ? `\n${context.error.stack}`
+    : "";
+  return `[${format(time, "yyyy-MM-dd HH:mm:ss")}] ${level.toUpperCase().padEnd(5)} ${message}${fields.length > 0 ? ` (${fields.join(" ")})` : ""}${stack}`;
+}
+
+/**
+ * A logger carrying fixed context fields
+ */
+export class Logger {
+  constructor(private readonly context: LogContext = {}) {}
+
+  /**
+   * A logger that adds more fields to every entry
+   */
+  child(context: LogContext): Logger {
+    return new Logger({ ...this.context, ...context });
+  }
+
+  debug(message: string, context?: LogContext): void {
+    this.write("debug", message, context);
+  }
+
+  info(message: string, context?: LogContext): void {
+    this.write("info", message, context);
+  }
+
+  warn(message: string, context?: LogContext): void {
+    this.write("warn", message, context);
+  }
+
+  error(message: string, context?: LogContext): void {
+    this.write("error", message, context);
+  }
+
+  private write(level: LogLevel, message: string, context: LogContext = {}): void {
+    if (LEVEL_ORDER[level] < LEVEL_ORDER[settings.level]) {
+      return;
+    }
+
+    // Fixed fields first, then the current run or request, then the call's own fields
+    const line = formatEntry(level, message, { ...this.context, ...contextStorage.getStore(), ...context }, new Date());
+    if (level === "warn" || level === "error") {
+      console.error(line);
+    } else {
+      console.log(line);
+    }
+    getFileSink()?.write(line + "\n");
+  }
+}
+
+/**
+ * Root logger shared by every module
+ */
+export const logger = new Logger();
+
+/**
+ * Run a function with extra context fields attached to everything it logs, including async work it starts
+ */
+export function withLogContext<T>(context: LogContext, fn: () => T): T {
+  return contextStorage.run({ ...contextStorage.getStore(), ...context }, fn);
+}
+
+/**
+ * Wait for buffered log lines to reach the log file, e.g. before `process.exit()`
+ */
+export async function flushLogs(): Promise<void> {
+  await fileSink?.flush();
+}
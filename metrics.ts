@@ -0,0 +1,224 @@
+import type { SchedulerState } from "./cron.js";
+import type { CompileReport } from "./status.js";
+
+/**
+ * Label names and values of one series
+ */
+type Labels = Record<string, string>;
+
+/**
+ * Content type of the Prometheus text exposition format
+ */
+export const METRICS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+/**
+ * Upper bounds of the compile duration histogram buckets, in seconds
+ */
+const COMPILE_DURATION_BUCKETS = [1, 5, 15, 30, 60, 120, 300, 600];
+
+/**
+ * Escape a label value as the exposition format requires
+ */
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+}
+
+/**
+ * Render labels as `{name="value",...}`, or nothing without labels
+ */
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+/**
+ * One metric family: its help text, type and series keyed by their labels
+ */
+abstract class Metric {
+  protected readonly series = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(readonly name: string, private readonly help: string, private readonly type: "counter" | "gauge" | "histogram") {}
+
+  /** Drop every series, e.g. before setting the gauges of a new compile */
+  reset(): void {
+    this.series.clear();
+  }
+
+  protected update(labels: Labels, update: (value: number) => number): void {
+    const key = formatLabels(labels);
+    const entry = this.series.get(key) ?? { labels, value: 0 };
+    entry.value = update(entry.value);
+    this.series.set(key, entry);
+  }
+
+  protected samples(): string[] {
+    return [...this.series.values()].map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`);
+  }
+
+  render(): string[] {
+    return [`# HELP ${this.name} ${this.help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n")}`, `# TYPE ${this.name} ${this.type}`, ...this.samples()];
+  }
+}
+
+class Counter extends Metric {
+  constructor(name: string, help: string) {
+    super(name, help, "counter");
+  }
+
+  inc(labels: Labels = {}, amount = 1): void {
+    this.update(labels, value => value + amount);
+  }
+}
+
+class Gauge extends Metric {
+  constructor(name: string, help: string) {
+    super(name, help, "gauge");
+  }
+
+  set(value: number, labels: Labels = {}): void {
+    this.update(labels, () => value);
+  }
+}
+
+class Histogram extends Metric {
+  private readonly counts: number[];
+  private sum = 0;
+  private count = 0;
+
+  constructor(name: string, help: string, private readonly buckets: number[]) {
+    super(name, help, "histogram");
+    this.counts = buckets.map(() => 0);
+  }
+
+  observe(value: number): void {
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) {
+        this.counts[i]++;
+      }
+    });
+    this.sum += value;
+    this.count++;
+  }
+
+  protected samples(): string[] {
+    return [
+      ...this.buckets.map((bound, i) => `${this.name}_bucket{le="${bound}"} ${this.counts[i]}`),
+      `${this.name}_bucket{le="+Inf"} ${this.count}`,
+      `${this.name}_sum ${this.sum}`,
+      `${this.name}_count ${this.count}`
+    ];
+  }
+}
+
+const compileDuration = new Histogram("georlist_compile_duration_seconds", "Duration of compiles", COMPILE_DURATION_BUCKETS);
+const compilesTotal = new Counter("georlist_compiles_total", "Compiles by result");
+const lastSuccessfulCompile = new Gauge("georlist_last_successful_compile_timestamp_seconds", "Time the last successful compile finished");
+const listRules = new Gauge("georlist_rules", "Rules in each published list; the default list is labelled default");
+const stageRemoved = new Gauge("georlist_stage_removed_rules", "Lines removed by each list-level pipeline step of the last published build");
+const sourceFetchDuration = new Gauge("georlist_source_fetch_duration_seconds", "Time spent fetching each source in the last compile");
+const sourceBytes = new Gauge("georlist_source_bytes", "Size of each source's content in the last compile");
+const sourceRules = new Gauge("georlist_source_rules", "Rules each source contributed in the last compile");
+const sourceStageRemoved = new Gauge("georlist_source_stage_removed_rules", "Lines removed by each per-source pipeline step in the last compile");
+const sourceRejected = new Gauge("georlist_source_rejected_rules", "Lines each source's validation rejected in the last compile, by reason");
+const sourceLastSuccess = new Gauge("georlist_source_last_success_timestamp_seconds", "Time of the last compile that fetched each source or found it unchanged");
+const sourceFetches = new Counter("georlist_source_fetches_total", "Source fetches by source and outcome");
+const schedulerFailures = new Gauge("georlist_scheduler_consecutive_failures", "Consecutive failed compiles");
+const schedulerNextRun = new Gauge("georlist_scheduler_next_run_timestamp_seconds", "Time of the next scheduled compile, retry or recovery");
+const schedulerRunning = new Gauge("georlist_scheduler_running", "Whether a compile is running");
+const httpRequests = new Counter("georlist_http_requests_total", "HTTP requests by route and status");
+const httpRateLimited = new Counter("georlist_http_rate_limited_total", "HTTP requests rejected by the rate limit");
+
+/**
+ * Every metric in the order it is exposed
+ */
+const METRICS: Metric[] = [
+  compileDuration, compilesTotal, lastSuccessfulCompile, listRules, stageRemoved,
+  sourceFetchDuration, sourceBytes, sourceRules, sourceStageRemoved, sourceRejected, sourceLastSuccess, sourceFetches,
+  schedulerFailures, schedulerNextRun, schedulerRunning,
+  httpRequests, httpRateLimited
+];
+
+/**
+ * Seconds since the epoch of an ISO timestamp
+ */
+function epochSeconds(timestamp: string): number {
+  return new Date(timestamp).getTime() / 1000;
+}
+
+/**
+ * Update the compile and source metrics from a finished compile
+ */
+export function recordCompileMetrics(report: CompileReport): void {
+  compileDuration.observe(report.durationMs / 1000);
+  compilesTotal.inc({ result: report.success ? "success" : "failure" });
+
+  // Per-source gauges describe the last compile only, so sources removed from config disappear
+  for (const gauge of [sourceFetchDuration, sourceBytes, sourceRules, sourceStageRemoved, sourceRejected]) {
+    gauge.reset();
+  }
+  for (const source of report.sources) {
+    // Names are not unique (many sources share a generic name), so the location tells series apart
+    const labels = { source: source.name, url: source.url };
+    sourceFetches.inc({ ...labels, status: source.status });
+    sourceFetchDuration.set(source.durationMs / 1000, labels);
+    sourceBytes.set(source.bytes, labels);
+    sourceRules.set(source.rules, labels);
+    for (const stage of source.stages) {
+      sourceStageRemoved.set(stage.removed, { ...labels, stage: stage.stage });
+    }
+    for (const rejection of source.rejected) {
+      sourceRejected.set(rejection.count, { ...labels, reason: rejection.reason });
+    }
+    if (source.status !== "failed") {
+      sourceLastSuccess.set(epochSeconds(report.startedAt), labels);
+    }
+  }
+
+  if (!report.success) {
+    return;
+  }
+  lastSuccessfulCompile.set(epochSeconds(report.finishedAt));
+  listRules.reset();
+  if (report.ruleCount !== null) {
+    listRules.set(report.ruleCount, { list: "default" });
+  }
+  for (const [slug, count] of Object.entries(report.lists)) {
+    listRules.set(count, { list: slug });
+  }
+  stageRemoved.reset();
+  for (const stage of report.stages) {
+    stageRemoved.set(stage.removed, { stage: stage.stage });
+  }
+}
+
+/**
+ * Count a served HTTP request
+ */
+export function recordHttpRequest(route: string, status: number): void {
+  httpRequests.inc({ route, status: String(status) });
+}
+
+/**
+ * Count a request rejected by the rate limit
+ */
+export function recordRateLimited(): void {
+  httpRateLimited.inc();
+}
+
+/**
+ * Render every metric in the text exposition format
+ */
+export function renderMetrics(scheduler: SchedulerState | null): string {
+  schedulerFailures.reset();
+  schedulerNextRun.reset();
+  schedulerRunning.reset();
+  if (scheduler) {
+    schedulerFailures.set(scheduler.consecutiveFailures);
+    schedulerRunning.set(scheduler.running ? 1 : 0);
+    if (scheduler.nextRun) {
+      schedulerNextRun.set(epochSeconds(scheduler.nextRun));
+    }
+  }
+
+  return METRICS.flatMap(metric => metric.render()).join("\n") + "\n";
+}
@@ -0,0 +1,558 @@
+import net from "net";
+import { BLOCKING_ADDRESSES, isComment, isCosmeticRule, isDnsModifier, isValidHostname, splitModifiers } from "./transformations.js";
+
+/**
+ * Formats a source can be published in, selected by its `type`
+ */
+export type SourceType = "adblock" | "hosts" | "domains" | "dnsmasq" | "rpz" | "urls" | "csv" | "json" | "xml";
+
+/**
+ * Every supported source type
+ */
+export const SOURCE_TYPES: readonly SourceType[] = ["adblock", "hosts", "domains", "dnsmasq", "rpz", "urls", "csv", "json", "xml"];
+
+/**
+ * Addresses used by the local and broadcast entries found at the top of most hosts files
+ */
+const LOCAL_ADDRESSES = new Set([
+  "::1",
+  "fe80::1%lo0",
+  "ff00::0",
+  "ff02::1",
+  "ff02::2",
+  "ff02::3",
+  "255.255.255.255"
+]);
+
+/**
+ * Hostnames that must never end up in a blocklist
+ */
+const LOCAL_HOSTNAMES = new Set([
+  "localhost",
+  "localhost.localdomain",
+  "local",
+  "broadcasthost",
+  "ip6-localhost",
+  "ip6-loopback",
+  "ip6-localnet",
+  "ip6-mcastprefix",
+  "ip6-allnodes",
+  "ip6-allrouters",
+  "ip6-allhosts",
+  "0.0.0.0"
+]);
+
+/**
+ * `address=/a.com/b.com/0.0.0.0`, `server=/a.com/` and `local=/a.com/` lines of a dnsmasq file
+ */
+const DNSMASQ_DIRECTIVE = /^(address|server|local)=\/(.+)\/([^/]*)$/;
+
+/**
+ * Record classes that may appear between an RPZ owner name and the record type
+ */
+const DNS_CLASSES = new Set(["IN", "CH", "HS"]);
+
+/**
+ * Suffixes of RPZ triggers on IP addresses and name servers rather than queried names
+ */
+const RPZ_NON_DOMAIN_TRIGGERS = /\.(rpz-ip|rpz-client-ip|rpz-nsip|rpz-nsdname)$/;
+
+/**
+ * Column names a CSV feed's hostnames are looked up under when `field` is not set
+ */
+const CSV_HOST_COLUMNS = ["domain", "hostname", "host", "fqdn", "url"];
+
+/**
+ * Where a structured source keeps its domains, from the source's settings in config.json
+ */
+export interface ParserOptions {
+  /** URL or path of the source, for error messages */
+  location: string;
+  /** CSV column (header name or 0-based index), JSON property path or XML element name */
+  field?: string | number;
+  /** CSV field separator (default `,`) */
+  delimiter?: string;
+}
+
+/**
+ * Rules parsed from a source, with what the parser dropped
+ */
+export interface ParseResult {
+  rules: string[];
+  /** Lines or records taken as rules, usable or not; the content guardrail judges the source by these */
+  entries: number;
+  /** Lines or records dropped, keyed by reason */
+  dropped: Record<string, number>;
+}
+
+/**
+ * A parser for one source type, taking the source's non-empty trimmed lines
+ */
+type SourceParser = (lines: string[], options: ParserOptions) => ParseResult;
+
+/**
+ * Count a dropped line or record under its reason
+ */
+function drop(result: ParseResult, reason: string): void {
+  result.dropped[reason] = (result.dropped[reason] ?? 0) + 1;
+}
+
+/**
+ * Normalize a hostname from a source, or return null if it cannot be blocked.
+ * IP addresses are not hostnames, so `0.0.0.0 1.2.3.4` does not become a rule.
+ */
+function normalizeHostname(hostname: string): string | null {
+  const normalized = hostname.toLowerCase().replace(/\.$/, "");
+  if (!normalized.includes(".") || net.isIP(normalized) !== 0 || !isValidHostname(normalized)) {
+    return null;
+  }
+  return normalized;
+}
+
+/**
+ * The hostname in a URL, or in a bare `host[:port][/path]` value
+ */
+function extractHostname(value: string): string | null {
+  let candidate = value.trim();
+  if (/^[a-z][a-z0-9+.-]*:\/\//i.test(candidate)) {
+    try {
+      candidate = new URL(candidate).hostname;
+    } catch {
+      return null;
+    }
+  } else {
+    candidate = candidate.split(/[/?#]/)[0].replace(/:\d+$/, "");
+  }
+  return normalizeHostname(candidate);
+}
+
+/**
+ * Add a `||hostname^` rule for a value from a feed, dropping invalid values and repeats
+ */
+function addExtracted(result: ParseResult, seen: Set<string>, value: unknown): void {
+  result.entries++;
+  const hostname = typeof value === "string" ? extractHostname(value) : null;
+  if (!hostname) {
+    drop(result, "invalid hostnames");
+  } else if (seen.has(hostname)) {
+    // URL feeds list many URLs on the same host
+    drop(result, "duplicate hostnames");
+  } else {
+    seen.add(hostname);
+    result.rules.push(`||${hostname}^`);
+  }
+}
+
+/**
+ * Whether a network rule can be applied by a DNS blocker: no paths, queries or ports,
+ * and only modifiers AdGuard Home understands or RemoveModifiers strips
+ */
+function isDnsNetworkRule(rule: string): boolean {
+  const unprefixed = rule.startsWith("@@") ? rule.slice(2) : rule;
+  const { pattern, modifiers } = splitModifiers(unprefixed);
+  if (!modifiers.every(isDnsModifier)) {
+    return false;
+  }
+  // Regex rules and hosts-style lines are left for Validate to judge
+  if ((pattern.length > 2 && pattern.startsWith("/") && pattern.endsWith("/")) || /\s/.test(pattern)) {
+    return true;
+  }
+  const host = pattern.replace(/^\|\|?/, "").replace(/\^\|?$/, "").replace(/\|$/, "");
+  return host.length > 0 && !/[/?=&^|:]/.test(host);
+}
+
+/**
+ * Adblock lists: comments and DNS-compatible rules pass through, cosmetic rules and
+ * network rules that need a browser are dropped
+ */
+function parseAdblock(lines: string[]): ParseResult {
+  const result: ParseResult = { rules: [], entries: 0, dropped: {} };
+  for (const line of lines) {
+    if (isCosmeticRule(line)) {
+      drop(result, "cosmetic rules");
+    } else if (isComment(line)) {
+      result.rules.push(line);
+    } else if (!isDnsNetworkRule(line)) {
+      drop(result, "unsupported network rules");
+    } else {
+      result.entries++;
+      result.rules.push(line);
+    }
+  }
+  return result;
+}
+
+/**
+ * Hosts files: `0.0.0.0 a.com b.com` lines become `||domain^` rules.
+ * Lines already in adblock syntax are passed through unchanged.
+ */
+function parseHosts(lines: string[]): ParseResult {
+  const result: ParseResult = { rules: [], entries: 0, dropped: {} };
+
+  for (const line of lines) {
+    if (line.startsWith("#") || line.startsWith("!")) {
+      continue;
+    }
+
+    // Many "hosts" lists are published in adblock syntax already
+    if (line.startsWith("|") || line.startsWith("@@")) {
+      result.entries++;
+      result.rules.push(line);
+      continue;
+    }
+
+    const withoutComment = line.split("#")[0].trim();
+    const parts = withoutComment.split(/\s+/).filter(Boolean);
+    if (parts.length === 0) {
+      continue;
+    }
+
+    let hostnames: string[];
+    if (parts.length === 1) {
+      hostnames = parts;
+    } else if (BLOCKING_ADDRESSES.has(parts[0])) {
+      hostnames = parts.slice(1);
+    } else if (LOCAL_ADDRESSES.has(parts[0].toLowerCase())) {
+      drop(result, "local entries");
+      continue;
+    } else {
+      result.entries++;
+      drop(result, "non-blocking addresses");
+      continue;
+    }
+
+    let convertedAny = false;
+    let rejectedAny = false;
+    for (const hostname of hostnames) {
+      if (LOCAL_HOSTNAMES.has(hostname.toLowerCase())) {
+        continue;
+      }
+      const normalized = normalizeHostname(hostname);
+      if (!normalized) {
+        rejectedAny = true;
+        continue;
+      }
+      result.rules.push(`||${normalized}^`);
+      convertedAny = true;
+    }
+
+    if (convertedAny) {
+      result.entries++;
+    } else if (rejectedAny) {
+      result.entries++;
+      drop(result, "invalid hostnames");
+    } else {
+      drop(result, "local entries");
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Plain domain lists, one hostname per line; a leading `*.` is dropped since `||domain^` covers subdomains
+ */
+function parseDomains(lines: string[]): ParseResult {
+  const result: ParseResult = { rules: [], entries: 0, dropped: {} };
+  for (const line of lines) {
+    if (isComment(line)) {
+      continue;
+    }
+    result.entries++;
+    const hostname = normalizeHostname(line.split("#")[0].trim().replace(/^\*\./, ""));
+    if (hostname) {
+      result.rules.push(`||${hostname}^`);
+    } else {
+      drop(result, "invalid hostnames");
+    }
+  }
+  return result;
+}
+
+/**
+ * dnsmasq files: `address=/domain/` with no or a blocking address, and `server=/domain/` or
+ * `local=/domain/` without an upstream, answer locally and become blocking rules
+ */
+function parseDnsmasq(lines: string[]): ParseResult {
+  const result: ParseResult = { rules: [], entries: 0, dropped: {} };
+  for (const line of lines) {
+    if (line.startsWith("#")) {
+      continue;
+    }
+    const match = DNSMASQ_DIRECTIVE.exec(line);
+    if (!match) {
+      drop(result, "other directives");
+      continue;
+    }
+
+    const [, directive, domains, target] = match;
+    const blocks = target === "" || (directive === "address" && (target === "#" || BLOCKING_ADDRESSES.has(target)));
+    if (!blocks) {
+      drop(result, "forwarding and rewrite entries");
+      continue;
+    }
+    for (const domain of domains.split("/")) {
+      result.entries++;
+      const hostname = normalizeHostname(domain);
+      if (hostname) {
+        result.rules.push(`||${hostname}^`);
+      } else {
+        drop(result, "invalid hostnames");
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * The domain an RPZ owner name triggers on, relative to the zone origin
+ */
+function rpzTrigger(owner: string, origin: string | null): string {
+  let name = owner.toLowerCase();
+  if (name.endsWith(".")) {
+    name = name.slice(0, -1);
+    if (origin && name.endsWith(`.${origin}`)) {
+      name = name.slice(0, -origin.length - 1);
+    }
+  }
+  return name.replace(/^\*\./, "");
+}
+
+/**
+ * Response policy zones: NXDOMAIN, NODATA and drop policies and records pointing at a blocking
+ * address become blocking rules, `rpz-passthru.` becomes an exception. Redirects are dropped.
+ */
+function parseRpz(lines: string[]): ParseResult {
+  const result: ParseResult = { rules: [], entries: 0, dropped: {} };
+  const seen = new Set<string>();
+  let origin: string | null = null;
+
+  for (const line of lines) {
+    const record = line.split(";")[0].trim();
+    if (record.length === 0) {
+      continue;
+    }
+    if (record.startsWith("$")) {
+      const [directive, value] = record.split(/\s+/);
+      if (directive.toUpperCase() === "$ORIGIN" && value) {
+        origin = value.toLowerCase().replace(/\.$/, "");
+      }
+      continue;
+    }
+
+    // owner [ttl] [class] type rdata; lines without an owner continue the SOA and NS records
+    const [owner, ...rest] = record.split(/\s+/);
+    if (owner === "@" || /^[()]/.test(owner) || /^\d+$/.test(owner) || DNS_CLASSES.has(owner.toUpperCase())) {
+      continue;
+    }
+    while (rest.length > 0 && (/^\d+$/.test(rest[0]) || DNS_CLASSES.has(rest[0].toUpperCase()))) {
+      rest.shift();
+    }
+    const [type = "", target = ""] = rest;
+    if (["SOA", "NS", ""].includes(type.toUpperCase())) {
+      continue;
+    }
+
+    result.entries++;
+    const trigger = rpzTrigger(owner, origin);
+    if (RPZ_NON_DOMAIN_TRIGGERS.test(trigger)) {
+      drop(result, "IP and name server triggers");
+      continue;
+    }
+    const policy = target.toLowerCase();
+    let prefix: string;
+    if (type.toUpperCase() === "CNAME" && policy === "rpz-passthru.") {
+      prefix = "@@";
+    } else if ((type.toUpperCase() === "CNAME" && [".", "*.", "rpz-drop."].includes(policy))
+      || (["A", "AAAA"].includes(type.toUpperCase()) && BLOCKING_ADDRESSES.has(policy))) {
+      prefix = "";
+    } else {
+      drop(result, "redirects");
+      continue;
+    }
+
+    const hostname = normalizeHostname(trigger);
+    if (!hostname) {
+      drop(result, "invalid hostnames");
+    } else if (seen.has(prefix + hostname)) {
+      // `domain` and `*.domain` are listed separately but make the same rule
+      drop(result, "duplicate hostnames");
+    } else {
+      seen.add(prefix + hostname);
+      result.rules.push(`${prefix}||${hostname}^`);
+    }
+  }
+  return result;
+}
+
+/**
+ * URL lists, one URL per line; each host is blocked once
+ */
+function parseUrls(lines: string[]): ParseResult {
+  const result: ParseResult = { rules: [], entries: 0, dropped: {} };
+  const seen = new Set<string>();
+  for (const line of lines) {
+    if (!isComment(line)) {
+      addExtracted(result, seen, line);
+    }
+  }
+  return result;
+}
+
+/**
+ * Split a CSV line into its fields, honouring double quotes
+ */
+function splitCsvLine(line: string, delimiter: string): string[] {
+  const fields: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      fields.push(field);
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields.map(value => value.trim());
+}
+
+/**
+ * CSV feeds: the hostname or URL column is found by `field` or a header named like one,
+ * which may itself be commented out as in URLhaus exports; without a header the first column is used
+ */
+function parseCsv(lines: string[], options: ParserOptions): ParseResult {
+  const result: ParseResult = { rules: [], entries: 0, dropped: {} };
+  const seen = new Set<string>();
+  const delimiter = options.delimiter ?? ",";
+  const names = typeof options.field === "string" ? [options.field.toLowerCase()] : CSV_HOST_COLUMNS;
+  let column = typeof options.field === "number" ? options.field : null;
+
+  for (const line of lines) {
+    const commented = line.startsWith("#");
+    const fields = splitCsvLine(commented ? line.slice(1) : line, delimiter);
+    if (column === null) {
+      const header = fields.findIndex(name => names.includes(name.toLowerCase()));
+      if (header !== -1) {
+        column = header;
+        continue;
+      }
+      if (commented) {
+        continue;
+      }
+      if (typeof options.field === "string") {
+        throw new Error(`${options.location} has no CSV column named ${options.field}`);
+      }
+      column = 0;
+    }
+    if (!commented) {
+      addExtracted(result, seen, fields[column]);
+    }
+  }
+  return result;
+}
+
+/**
+ * Values at a dot-separated path, descending into every element of the arrays along the way
+ */
+function jsonValues(value: unknown, path: string[]): unknown[] {
+  if (Array.isArray(value)) {
+    return value.flatMap(item => jsonValues(item, path));
+  }
+  if (path.length === 0) {
+    return [value];
+  }
+  if (value !== null && typeof value === "object") {
+    return jsonValues((value as Record<string, unknown>)[path[0]], path.slice(1));
+  }
+  return [];
+}
+
+/**
+ * JSON feeds: `field` is the path to the hostnames or URLs, e.g. `data.domain` for
+ * `{"data": [{"domain": "..."}]}`; without it the document must be an array of strings
+ */
+function parseJson(lines: string[], options: ParserOptions): ParseResult {
+  let document: unknown;
+  try {
+    document = JSON.parse(lines.join("\n"));
+  } catch (error) {
+    throw new Error(`${options.location} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const path = options.field === undefined ? [] : String(options.field).split(".").filter(Boolean);
+  const values = jsonValues(document, path);
+  if (values.length === 0) {
+    throw new Error(`${options.location} has no values at ${options.field ?? "its root"}`);
+  }
+
+  const result: ParseResult = { rules: [], entries: 0, dropped: {} };
+  const seen = new Set<string>();
+  for (const value of values) {
+    addExtracted(result, seen, value);
+  }
+  return result;
+}
+
+/**
+ * XML feeds: the text of every element named by `field`
+ */
+function parseXml(lines: string[], options: ParserOptions): ParseResult {
+  if (options.field === undefined) {
+    throw new Error(`${options.location} is an XML source without a field naming the element that holds its domains`);
+  }
+  const element = String(options.field).replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const pattern = new RegExp(`<${element}(?:\\s[^>]*)?>([\\s\\S]*?)</${element}>`, "g");
+
+  const result: ParseResult = { rules: [], entries: 0, dropped: {} };
+  const seen = new Set<string>();
+  for (const match of lines.join("\n").matchAll(pattern)) {
+    const text = match[1]
+      .replace(/^\s*<!\[CDATA\[([\s\S]*)\]\]>\s*$/, "$1")
+      .replace(/&lt;/g, "<")
+      .replace(/&gt;/g, ">")
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, "'")
+      .replace(/&amp;/g, "&");
+    addExtracted(result, seen, text);
+  }
+  if (result.entries === 0) {
+    throw new Error(`${options.location} has no <${options.field}> elements`);
+  }
+  return result;
+}
+
+/**
+ * The parser for each source type
+ */
+const PARSERS: Record<SourceType, SourceParser> = {
+  adblock: parseAdblock,
+  hosts: parseHosts,
+  domains: parseDomains,
+  dnsmasq: parseDnsmasq,
+  rpz: parseRpz,
+  urls: parseUrls,
+  csv: parseCsv,
+  json: parseJson,
+  xml: parseXml
+};
+
+/**
+ * Parse a source's non-empty trimmed lines into adblock-style rules according to its type
+ */
+export function parseSource(type: SourceType, lines: string[], options: ParserOptions): ParseResult {
+  return PARSERS[type](lines, options);
+}
@@ -0,0 +1,74 @@
+/**
+ * Limits for a worker pool run
+ */
+export interface PoolOptions<T> {
+  /** Maximum number of tasks running at once */
+  concurrency: number;
+  /** Maximum number of tasks running at once for the same key */
+  perKeyConcurrency?: number;
+  /** Key used for the per-key limit, e.g. the host of a URL */
+  keyOf?: (item: T) => string;
+}
+
+/**
+ * Run an async worker over every item with bounded concurrency.
+ * Results are returned in input order regardless of completion order.
+ */
+export function runPool<T, R>(
+  items: T[],
+  worker: (item: T, index: number) => Promise<R>,
+  options: PoolOptions<T>
+): Promise<PromiseSettledResult<R>[]> {
+  const concurrency = Math.max(1, options.concurrency);
+  const perKeyConcurrency = Math.max(1, options.perKeyConcurrency ?? concurrency);
+  const keyOf = options.keyOf ?? (() => "");
+
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  const pending = items.map((_, index) => index);
+  const activePerKey = new Map<string, number>();
+  let active = 0;
+  let finished = 0;
+
+  return new Promise(resolve => {
+    if (items.length === 0) {
+      resolve(results);
+      return;
+    }
+
+    const launchNext = (): void => {
+      // Start the earliest pending items whose key still has capacity
+      for (let i = 0; i < pending.length && active < concurrency; ) {
+        const index = pending[i];
+        const key = keyOf(items[index]);
+        const keyActive = activePerKey.get(key) ?? 0;
+        if (keyActive >= perKeyConcurrency) {
+          i++;
+          continue;
+        }
+
+        pending.splice(i, 1);
+        active++;
+        activePerKey.set(key, keyActive + 1);
+
+        Promise.resolve()
+          .then(() => worker(items[index], index))
+          .then(
+            value => { results[index] = { status: "fulfilled", value }; },
+            reason => { results[index] = { status: "rejected", reason }; }
+          )
+          .finally(() => {
+            active--;
+            activePerKey.set(key, (activePerKey.get(key) ?? 1) - 1);
+            finished++;
+            if (finished === items.length) {
+              resolve(results);
+            } else {
+              launchNext();
+            }
+          });
+      }
+    };
+
+    launchNext();
+  });
+}
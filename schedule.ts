@@ -0,0 +1,126 @@
+/**
+ * Month and weekday names accepted in cron expressions, as understood by node-cron
+ */
+const MONTH_NAMES = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const WEEKDAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+/**
+ * Allowed range of each field: second, minute, hour, day of month, month, day of week
+ */
+const FIELD_RANGES: [number, number][] = [[0, 59], [0, 59], [0, 23], [1, 31], [1, 12], [0, 7]];
+
+/**
+ * Give up looking for a matching time after this many years (e.g. `0 0 31 2 *` never fires)
+ */
+const MAX_SEARCH_YEARS = 5;
+
+/**
+ * A cron expression expanded to the set of values each field matches
+ */
+interface CronFields {
+  seconds: Set<number>;
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+}
+
+/**
+ * Replace month or weekday names (`jan`, `January`, `mon`) with their numbers
+ */
+function replaceNames(field: string, names: string[], offset: number): string {
+  return field.toLowerCase().replace(/[a-z]+/g, name => {
+    const index = names.indexOf(name.slice(0, 3));
+    if (index === -1) {
+      throw new Error(`Unknown name "${name}" in cron expression`);
+    }
+    return String(index + offset);
+  });
+}
+
+/**
+ * Expand one cron field (`*`, `5`, `1-5`, `*\/15`, `1-30/2`, lists of these) to its values
+ */
+function expandField(field: string, [min, max]: [number, number]): Set<number> {
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    const match = /^(\*|\d+(?:-\d+)?)(?:\/(\d+))?$/.exec(part);
+    if (!match) {
+      throw new Error(`Invalid cron field "${field}"`);
+    }
+
+    let start = min;
+    let end = max;
+    if (match[1] !== "*") {
+      const [first, last] = match[1].split("-").map(Number);
+      start = first;
+      // A single value with a step (`5/15`) runs to the end of the range
+      end = last ?? (match[2] ? max : first);
+    }
+    const step = match[2] ? Number(match[2]) : 1;
+    if (start < min || end > max || start > end || step < 1) {
+      throw new Error(`Cron field "${field}" is out of range ${min}-${max}`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+/**
+ * Parse a 5-field (minute precision) or 6-field (second precision) cron expression
+ */
+export function parseCronExpression(expression: string): CronFields {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length === 5) {
+    fields.unshift("0");
+  }
+  if (fields.length !== 6) {
+    throw new Error(`Cron expression "${expression}" must have 5 or 6 fields`);
+  }
+
+  fields[4] = replaceNames(fields[4], MONTH_NAMES, 1);
+  fields[5] = replaceNames(fields[5], WEEKDAY_NAMES, 0);
+  const [seconds, minutes, hours, days, months, weekdays] = fields.map((field, i) => expandField(field, FIELD_RANGES[i]));
+
+  // Both 0 and 7 mean Sunday
+  if (weekdays.has(7)) {
+    weekdays.add(0);
+  }
+  return { seconds, minutes, hours, days, months, weekdays };
+}
+
+/**
+ * Find the first time strictly after `from` that matches the expression, in local time.
+ * Every field must match, as in node-cron. Returns null if nothing matches within a few years.
+ */
+export function nextCronRun(expression: string, from = new Date()): Date | null {
+  const fields = parseCronExpression(expression);
+  const candidate = new Date(from.getTime());
+  candidate.setMilliseconds(0);
+  candidate.setSeconds(candidate.getSeconds() + 1);
+  const limit = from.getTime() + MAX_SEARCH_YEARS * 366 * 24 * 60 * 60 * 1000;
+
+  // Skip ahead by the largest unit that does not match, resetting the smaller ones
+  while (candidate.getTime() <= limit) {
+    if (!fields.months.has(candidate.getMonth() + 1)) {
+      candidate.setMonth(candidate.getMonth() + 1, 1);
+      candidate.setHours(0, 0, 0);
+    } else if (!fields.days.has(candidate.getDate()) || !fields.weekdays.has(candidate.getDay())) {
+      candidate.setDate(candidate.getDate() + 1);
+      candidate.setHours(0, 0, 0);
+    } else if (!fields.hours.has(candidate.getHours())) {
+      candidate.setHours(candidate.getHours() + 1, 0, 0);
+    } else if (!fields.minutes.has(candidate.getMinutes())) {
+      candidate.setMinutes(candidate.getMinutes() + 1, 0);
+    } else if (!fields.seconds.has(candidate.getSeconds())) {
+      candidate.setSeconds(candidate.getSeconds() + 1);
+    } else {
+      return candidate;
+    }
+  }
+  return null;
+}
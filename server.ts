@@ -1,14 +1,69 @@
-import { join } from "path";
+import crypto from "crypto";
+import { join, relative } from "path";
 import fs from "fs";
 import { compileBlocklist } from "./compile.js";
 import { fileURLToPath } from "url";
 import http from "http";
 import { IncomingMessage, ServerResponse } from "http";
+import { PreparedFile, encodedBody, encodedEtag, negotiateEncoding, parseRange, prepareFile, streamBuffer } from "./variants.js";
+import { readSchedulerState } from "./cron.js";
+import { setSecurityHeaders } from "./headers.js";
+import { handleAdminRequest, initAdminApi } from "./admin.js";
+import { DEFAULT_HISTORY_RETENTION, readHistory } from "./history.js";
+import { getSnapshot, readManifest, snapshotFilePath } from "./snapshots.js";
+import { CompiledRelease, getLatestRelease, onRelease } from "./store.js";
+import { OUTPUT_CONTENT_TYPES, OUTPUT_FORMATS, OutputFormat, resolveListFiles, resolveOutputFiles } from "./formats.js";
+import { flushLogs, logger, withLogContext } from "./logger.js";
+import { METRICS_CONTENT_TYPE, recordHttpRequest, recordRateLimited, renderMetrics } from "./metrics.js";
+
+const log = logger.child({ component: "server" });
 
 // Configuration
 const PORT = Number(process.env.PORT) || 3000;
 const HOST = process.env.HOST || "localhost";
-const FILE_PATH = join(process.cwd(), "adguard-blocklist.txt");
+const CONFIG_PATH = join(process.cwd(), "config.json");
+
+/**
+ * Route for each output format; `/` and `?format=` are handled separately
+ */
+const FORMAT_ROUTES: Record<string, OutputFormat> = {
+  "/blocklist.txt": "adguard",
+  "/hosts.txt": "hosts",
+  "/dnsmasq.conf": "dnsmasq",
+  "/unbound.conf": "unbound",
+  "/rpz.zone": "rpz",
+  "/domains.txt": "domains"
+};
+
+/**
+ * Route for named lists
+ */
+const LIST_ROUTE = /^\/lists\/([a-z0-9][a-z0-9-]*)\.txt$/;
+
+/**
+ * Route for earlier published builds
+ */
+const VERSION_ROUTE = /^\/versions\/([0-9a-f]{16})\.txt$/;
+
+/**
+ * Routes reported under their own path in `/metrics`
+ */
+const FIXED_ROUTES = new Set(["/", "/versions", "/stats", "/health", "/metrics", ...Object.keys(FORMAT_ROUTES)]);
+
+/**
+ * Number of snapshots kept prepared in memory for `/versions/<id>.txt`
+ */
+const MAX_CACHED_SNAPSHOTS = 2;
+
+/**
+ * Files the server may serve, keyed by format; filled from config.json at startup
+ */
+let outputFiles = new Map<OutputFormat, string>();
+
+/**
+ * Named list files the server may serve, keyed by slug; filled from config.json at startup
+ */
+let listFiles = new Map<string, string>();
 
 // Rate limiting configuration
 const RATE_WINDOW_MS = 60 * 1000; // 1 minute window
@@ -44,36 +99,374 @@ function isRateLimited(ip: string): boolean {
   return requestData.count > MAX_REQUESTS_PER_WINDOW;
 }
 
+/**
+ * Whether a request comes from localhost or the internal Docker network
+ */
+function isInternalRequest(req: IncomingMessage, clientIp: string): boolean {
+  const host = req.headers.host || "";
+  return host.includes("localhost") || host.includes("127.0.0.1") ||
+    clientIp.startsWith("172.") || clientIp.startsWith("192.168.");
+}
+
+/**
+ * Route label for request metrics; keeps the number of series bounded whatever paths clients request
+ */
+function routeLabel(requestUrl: string | undefined): string {
+  const pathname = (requestUrl || "/").split("?")[0];
+  if (FIXED_ROUTES.has(pathname)) {
+    return pathname;
+  }
+  if (LIST_ROUTE.test(pathname)) {
+    return "/lists/:slug";
+  }
+  if (VERSION_ROUTE.test(pathname)) {
+    return "/versions/:id";
+  }
+  if (pathname === "/admin" || pathname.startsWith("/admin/")) {
+    return "/admin";
+  }
+  return "other";
+}
+
 /**
  * Validate the path to prevent path traversal attacks
  */
 function isValidPath(path: string): boolean {
-  // Prevent path traversal by normalizing and comparing paths
+  // Prevent path traversal by normalizing and comparing against the whitelist of output files
   const normalizedPath = join(process.cwd(), path);
-  return normalizedPath === FILE_PATH;
+  return [...outputFiles.values(), ...listFiles.values()].includes(normalizedPath);
+}
+
+/**
+ * Read the configured output and named list files from config.json
+ */
+function loadServedFiles(): void {
+  try {
+    const config = JSON.parse(fs.readFileSync(CONFIG_PATH, "utf-8"));
+    outputFiles = resolveOutputFiles(config.outputs);
+    listFiles = resolveListFiles(config.lists);
+  } catch (error) {
+    log.error("Failed to read outputs from config.json, serving the AdGuard format only", { error });
+    outputFiles = resolveOutputFiles();
+    listFiles = new Map();
+  }
+}
+
+/**
+ * Pick the requested output format from the route and `?format=` parameter
+ */
+function resolveFormat(url: URL): OutputFormat | "invalid" | null {
+  const requested = url.searchParams.get("format");
+  if (requested !== null) {
+    if (url.pathname !== "/" && url.pathname !== "/blocklist.txt") {
+      return null;
+    }
+    return (OUTPUT_FORMATS as readonly string[]).includes(requested) ? requested as OutputFormat : "invalid";
+  }
+
+  if (url.pathname === "/") {
+    return "adguard";
+  }
+  return FORMAT_ROUTES[url.pathname] ?? null;
+}
+
+/**
+ * How often to check served files on disk for changes made by another process
+ */
+const DISK_POLL_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Prepared responses currently being served, keyed by path.
+ * The map is never mutated in place; each update swaps in a new one so a request always sees
+ * a complete version, and the previous version keeps being served until the next is ready.
+ */
+let servedResponses = new Map<string, PreparedFile>();
+
+/**
+ * Sequence number of the release being served, so a release that finishes preparing late cannot replace a newer one
+ */
+let servedSequence = 0;
+
+/**
+ * Disk loads in progress, so concurrent requests on a cold start share one read
+ */
+const pendingLoads = new Map<string, Promise<PreparedFile | null>>();
+
+/**
+ * Swap prepared files into the served set in a single assignment
+ */
+function swapResponses(updates: [string, PreparedFile][]): void {
+  const next = new Map(servedResponses);
+  for (const [filePath, prepared] of updates) {
+    next.set(filePath, prepared);
+  }
+  servedResponses = next;
+}
+
+/**
+ * Prepare every served file of a compiled release, then swap them in together
+ */
+async function swapInRelease(release: CompiledRelease): Promise<void> {
+  const served = new Set([...outputFiles.values(), ...listFiles.values()]);
+  const updates = await Promise.all(
+    [...release.files]
+      .filter(([filePath]) => served.has(filePath))
+      .map(async ([filePath, content]): Promise<[string, PreparedFile]> => [filePath, await prepareFile(Buffer.from(content, "utf-8"), release.generatedAt)])
+  );
+  if (release.sequence < servedSequence) {
+    log.debug(`Dropping release ${release.sequence} prepared after the newer release ${servedSequence}`);
+    return;
+  }
+  servedSequence = release.sequence;
+  swapResponses(updates);
+  log.info(`Serving ${updates.length} files compiled at ${release.generatedAt.toISOString()}`);
+}
+
+/**
+ * Load a file from disk into the served set, unless its content is already being served
+ */
+async function loadFromDisk(filePath: string): Promise<PreparedFile | null> {
+  const pending = pendingLoads.get(filePath);
+  if (pending) {
+    return pending;
+  }
+  
+  const load = (async () => {
+    let body: Buffer;
+    let stats: fs.Stats;
+    try {
+      [body, stats] = await Promise.all([fs.promises.readFile(filePath), fs.promises.stat(filePath)]);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return servedResponses.get(filePath) ?? null;
+      }
+      throw error;
+    }
+    
+    const current = servedResponses.get(filePath);
+    if (current && current.body.equals(body)) {
+      return current;
+    }
+    const prepared = await prepareFile(body, stats.mtime);
+    swapResponses([[filePath, prepared]]);
+    return prepared;
+  })();
+  
+  pendingLoads.set(filePath, load);
+  try {
+    return await load;
+  } finally {
+    pendingLoads.delete(filePath);
+  }
+}
+
+/**
+ * Pick up files rewritten by a compile in another process (e.g. `npm run cron` next to `npm run server`)
+ */
+function watchServedFiles(): void {
+  for (const filePath of [...outputFiles.values(), ...listFiles.values()]) {
+    fs.watchFile(filePath, { interval: DISK_POLL_INTERVAL_MS }, (current, previous) => {
+      if (current.mtimeMs === previous.mtimeMs || current.mtimeMs === 0) {
+        return;
+      }
+      loadFromDisk(filePath).catch(error => log.error(`Failed to reload ${filePath}`, { error }));
+    }).unref();
+  }
+}
+
+/**
+ * Check the conditional request headers against the current representation
+ */
+function isNotModified(req: IncomingMessage, etag: string, lastModified: string): boolean {
+  // If-None-Match takes precedence over If-Modified-Since
+  const ifNoneMatch = req.headers["if-none-match"];
+  if (ifNoneMatch) {
+    return ifNoneMatch === "*" || ifNoneMatch.split(",").map(tag => tag.trim().replace(/^W\//, "")).includes(etag);
+  }
+  const ifModifiedSince = req.headers["if-modified-since"];
+  return Boolean(ifModifiedSince && new Date(ifModifiedSince) >= new Date(lastModified));
+}
+
+/**
+ * Serve one blocklist file with compression, caching, range and security headers
+ */
+async function serveFile(req: IncomingMessage, res: ServerResponse, filePath: string | undefined, contentType: string): Promise<void> {
+  if (!filePath) {
+    res.statusCode = 404;
+    res.end("Not Found");
+    return;
+  }
+  
+  // Validate the file path is one we are allowed to serve
+  if (!isValidPath(relative(process.cwd(), filePath))) {
+    res.statusCode = 500;
+    res.end("Internal Server Error");
+    return;
+  }
+  
+  // Serve from memory; the disk copy is only read on a cold start
+  const file = servedResponses.get(filePath) ?? await loadFromDisk(filePath);
+  if (!file) {
+    res.statusCode = 404;
+    res.end("Blocklist not found");
+    return;
+  }
+  
+  await sendPreparedFile(req, res, file, contentType, "public, max-age=3600");
+}
+
+/**
+ * Snapshot files prepared for serving, least recently used first; snapshots never change
+ */
+const snapshotResponses = new Map<string, Promise<PreparedFile>>();
+
+/**
+ * Serve the AdGuard format file of an earlier published build
+ */
+async function serveSnapshot(req: IncomingMessage, res: ServerResponse, id: string): Promise<void> {
+  const snapshot = getSnapshot(id);
+  if (!snapshot || !snapshot.main) {
+    res.statusCode = 404;
+    res.end("Version not found");
+    return;
+  }
+  
+  let prepared = snapshotResponses.get(id);
+  if (prepared) {
+    snapshotResponses.delete(id);
+  } else {
+    const filePath = snapshotFilePath(id, snapshot.main);
+    prepared = fs.promises.readFile(filePath).then(body => prepareFile(body, new Date(snapshot.createdAt)));
+    prepared.catch(() => snapshotResponses.delete(id));
+  }
+  snapshotResponses.set(id, prepared);
+  
+  // Keep only a few snapshots in memory; each holds the list plus two compressed copies
+  for (const cachedId of snapshotResponses.keys()) {
+    if (snapshotResponses.size <= MAX_CACHED_SNAPSHOTS) {
+      break;
+    }
+    snapshotResponses.delete(cachedId);
+  }
+  
+  await sendPreparedFile(req, res, await prepared, OUTPUT_CONTENT_TYPES.adguard, "public, max-age=31536000, immutable");
+}
+
+/**
+ * Send a prepared file with compression, caching, range and security headers
+ */
+async function sendPreparedFile(req: IncomingMessage, res: ServerResponse, file: PreparedFile, contentType: string, cacheControl: string): Promise<void> {
+  const lastModified = file.lastModified.toUTCString();
+  
+  // Ranges are only served from the uncompressed representation
+  const rangeHeader = req.headers.range;
+  const encoding = rangeHeader ? "identity" : negotiateEncoding(req.headers["accept-encoding"] as string | undefined);
+  const etag = encodedEtag(file, encoding);
+  const body = encodedBody(file, encoding);
+  
+  res.setHeader("Last-Modified", lastModified);
+  res.setHeader("ETag", etag);
+  res.setHeader("Vary", "Accept-Encoding");
+  res.setHeader("Accept-Ranges", "bytes");
+  res.setHeader("Cache-Control", cacheControl);
+  setSecurityHeaders(res);
+  
+  if (isNotModified(req, etag, lastModified)) {
+    res.statusCode = 304; // Not Modified
+    res.end();
+    return;
+  }
+  
+  res.setHeader("Content-Type", contentType);
+  if (encoding !== "identity") {
+    res.setHeader("Content-Encoding", encoding);
+  }
+  
+  // A stale If-Range means the client must get the whole new representation
+  const ifRange = req.headers["if-range"];
+  const range = ifRange && ifRange !== etag ? null : parseRange(rangeHeader, body.length);
+  
+  if (range === "unsatisfiable") {
+    res.statusCode = 416;
+    res.setHeader("Content-Range", `bytes */${body.length}`);
+    res.end();
+    return;
+  }
+  
+  let responseBody = body;
+  res.statusCode = 200;
+  if (range) {
+    res.statusCode = 206;
+    res.setHeader("Content-Range", `bytes ${range.start}-${range.end}/${body.length}`);
+    responseBody = body.subarray(range.start, range.end + 1);
+  }
+  res.setHeader("Content-Length", responseBody.length);
+  
+  if (req.method === "HEAD") {
+    res.end();
+    return;
+  }
+  
+  await streamBuffer(res, responseBody);
+}
+
+/**
+ * Log and count each request once its response has been sent or the client has gone away
+ */
+function logAccess(req: IncomingMessage, res: ServerResponse): void {
+  const startedAt = Date.now();
+  const socketBytes = req.socket.bytesWritten;
+  res.once("close", () => {
+    log.info("request", {
+      method: req.method,
+      path: req.url,
+      status: res.statusCode,
+      bytes: req.socket.bytesWritten - socketBytes,
+      durationMs: Date.now() - startedAt,
+      userAgent: req.headers["user-agent"],
+      aborted: res.writableFinished ? undefined : true
+    });
+    recordHttpRequest(routeLabel(req.url), res.statusCode);
+  });
 }
 
 /**
  * Main server function
  */
 async function startServer() {
-  console.log(`Starting AdGuard blocklist server on ${HOST}:${PORT}...`);
+  log.info(`Starting AdGuard blocklist server on ${HOST}:${PORT}...`);
   
-  // Ensure the blocklist file exists
-  if (!fs.existsSync(FILE_PATH)) {
-    console.log("Blocklist file not found. Compiling now...");
+  loadServedFiles();
+  
+  // Swap in every compile made in this process, including one that ran before the server started
+  onRelease(swapInRelease);
+  const latestRelease = getLatestRelease();
+  if (latestRelease) {
+    await swapInRelease(latestRelease);
+  }
+  
+  // Ensure every configured output and list file exists
+  const servedFiles = [...outputFiles.values(), ...listFiles.values()];
+  const missingFiles = servedFiles.filter(filePath => !fs.existsSync(filePath));
+  if (missingFiles.length > 0) {
+    log.info(`Blocklist files not found (${missingFiles.join(", ")}). Compiling now...`);
     await compileBlocklist();
   } else {
-    console.log(`Using existing blocklist file: ${FILE_PATH}`);
+    log.info(`Using existing blocklist files: ${servedFiles.join(", ")}`);
   }
   
-  // Create server
-  const server = http.createServer(async (req: IncomingMessage, res: ServerResponse) => {
+  // Prepare everything up front so no request pays for reading or compressing
+  await Promise.all(servedFiles.map(filePath => loadFromDisk(filePath)));
+  watchServedFiles();
+  const adminEnabled = initAdminApi();
+  
+  
+  // Route one request
+  const handleRequest = async (req: IncomingMessage, res: ServerResponse, clientIp: string) => {
     try {
-      const clientIp = (req.headers['x-forwarded-for'] as string) || req.socket.remoteAddress || "unknown";
-      
       // Apply rate limiting
       if (isRateLimited(clientIp)) {
+        recordRateLimited();
         res.statusCode = 429;
         res.setHeader("Content-Type", "text/plain; charset=utf-8");
         res.setHeader("Retry-After", "60");
@@ -83,68 +476,82 @@ async function startServer() {
       
       const url = new URL(req.url || "/", `http://${req.headers.host}`);
       
-      // Security check: Only allow GET requests
-      if (req.method !== "GET") {
+      // Admin API (only when ADMIN_TOKEN is set)
+      if (handleAdminRequest(req, res, url)) {
+        return;
+      }
+      
+      // Security check: Only allow GET and HEAD requests
+      if (req.method !== "GET" && req.method !== "HEAD") {
         res.statusCode = 405;
+        res.setHeader("Allow", "GET, HEAD");
         res.end("Method Not Allowed");
         return;
       }
       
-      // Serve the blocklist at the root path or /blocklist.txt
-      if (url.pathname === "/" || url.pathname === "/blocklist.txt") {
-        // Validate the file path is correct
-        if (!isValidPath("adguard-blocklist.txt")) {
-          res.statusCode = 500;
-          res.end("Internal Server Error");
-          return;
-        }
-        
-        // Security check: Ensure file exists
-        if (!fs.existsSync(FILE_PATH)) {
-          res.statusCode = 404;
-          res.end("Blocklist not found");
-          return;
-        }
-        
-        // Get the last modification time of the file
-        const stats = fs.statSync(FILE_PATH);
-        const lastModified = stats.mtime.toUTCString();
-        
-        // If-Modified-Since header check
-        const ifModifiedSince = req.headers["if-modified-since"];
-        if (ifModifiedSince && new Date(ifModifiedSince) >= stats.mtime) {
-          res.statusCode = 304; // Not Modified
-          res.end();
+      // Serve the blocklist in any enabled format
+      const outputFormat = resolveFormat(url);
+      if (outputFormat === "invalid") {
+        res.statusCode = 400;
+        res.end(`Unknown format. Supported formats: ${OUTPUT_FORMATS.join(", ")}`);
+        return;
+      }
+      if (outputFormat) {
+        await serveFile(req, res, outputFiles.get(outputFormat), OUTPUT_CONTENT_TYPES[outputFormat]);
+        return;
+      }
+      
+      // Serve named lists at /lists/<slug>.txt
+      const listMatch = LIST_ROUTE.exec(url.pathname);
+      if (listMatch) {
+        await serveFile(req, res, listFiles.get(listMatch[1]), OUTPUT_CONTENT_TYPES.adguard);
+        return;
+      }
+      
+      // Published builds, newest first
+      if (url.pathname === "/versions") {
+        const manifest = readManifest();
+        res.statusCode = 200;
+        res.setHeader("Content-Type", "application/json");
+        res.setHeader("Cache-Control", "no-cache");
+        setSecurityHeaders(res);
+        res.end(JSON.stringify({
+          current: manifest.current,
+          versions: manifest.snapshots.map(snapshot => ({ ...snapshot, url: snapshot.main ? `/versions/${snapshot.id}.txt` : null }))
+        }, null, 2));
+        return;
+      }
+      
+      const versionMatch = VERSION_ROUTE.exec(url.pathname);
+      if (versionMatch) {
+        await serveSnapshot(req, res, versionMatch[1]);
+        return;
+      }
+      
+      // Compile history, newest first
+      if (url.pathname === "/stats") {
+        const limit = Number(url.searchParams.get("limit") ?? DEFAULT_HISTORY_RETENTION);
+        if (!Number.isInteger(limit) || limit < 1) {
+          res.statusCode = 400;
+          res.end("limit must be a positive integer");
           return;
         }
-        
-        // Serve the file with appropriate security headers
-        const fileContent = fs.readFileSync(FILE_PATH, "utf-8");
-        
         res.statusCode = 200;
-        res.setHeader("Content-Type", "text/plain; charset=utf-8");
-        res.setHeader("Last-Modified", lastModified);
-        res.setHeader("Cache-Control", "public, max-age=3600");
-        res.setHeader("Content-Length", Buffer.byteLength(fileContent, "utf-8"));
-        res.setHeader("X-Content-Type-Options", "nosniff");
-        res.setHeader("X-Frame-Options", "DENY");
-        res.setHeader("Content-Security-Policy", "default-src 'none'");
-        res.setHeader("Referrer-Policy", "no-referrer");
-        res.setHeader("Strict-Transport-Security", "max-age=63072000; includeSubDomains; preload");
-        res.end(fileContent);
+        res.setHeader("Content-Type", "application/json");
+        res.setHeader("Cache-Control", "no-cache");
+        setSecurityHeaders(res);
+        res.end(JSON.stringify({ records: readHistory(limit) }, null, 2));
         return;
       }
       
       // Secured health check endpoint (only accessible from localhost or Docker network)
       if (url.pathname === "/health") {
         // Allow access only from localhost or internal Docker network
-        const host = req.headers.host || "";
-        if (host.includes("localhost") || host.includes("127.0.0.1") || 
-            (clientIp && (clientIp.startsWith("172.") || clientIp.startsWith("192.168.")))) {
+        if (isInternalRequest(req, clientIp)) {
           res.statusCode = 200;
           res.setHeader("Content-Type", "application/json");
-          res.setHeader("X-Content-Type-Options", "nosniff");
-          res.end(JSON.stringify({ status: "ok" }));
+          setSecurityHeaders(res);
+          res.end(JSON.stringify({ status: "ok", scheduler: readSchedulerState() }));
           return;
         } else {
           // Pretend the endpoint doesn't exist for external users
@@ -154,21 +561,65 @@ async function startServer() {
         }
       }
       
+      // Prometheus metrics, restricted like /health
+      if (url.pathname === "/metrics") {
+        if (!isInternalRequest(req, clientIp)) {
+          res.statusCode = 404;
+          res.end("Not Found");
+          return;
+        }
+        res.statusCode = 200;
+        res.setHeader("Content-Type", METRICS_CONTENT_TYPE);
+        res.setHeader("Cache-Control", "no-store");
+        setSecurityHeaders(res);
+        res.end(renderMetrics(readSchedulerState()));
+        return;
+      }
+      
       // Not found for any other routes
       res.statusCode = 404;
       res.end("Not Found");
     } catch (error) {
       // Log the error but don't expose details to the client
-      console.error("Server error:", error);
+      log.error("Server error", { error });
+      if (res.headersSent) {
+        // Too late for an error status; drop the connection so the client sees a truncated body
+        res.destroy();
+        return;
+      }
       res.statusCode = 500;
       res.end("Internal Server Error");
     }
+  };
+  
+  // Create server
+  const server = http.createServer((req: IncomingMessage, res: ServerResponse) => {
+    const clientIp = (req.headers['x-forwarded-for'] as string) || req.socket.remoteAddress || "unknown";
+    const requestId = crypto.randomUUID();
+    res.setHeader("X-Request-Id", requestId);
+    logAccess(req, res);
+    
+    // Everything logged while handling the request carries its id and client
+    void withLogContext({ requestId, ip: clientIp }, () => handleRequest(req, res, clientIp));
   });
   
   // Start listening
   server.listen(PORT, HOST, () => {
-    console.log(`Server started at http://${HOST}:${PORT}`);
-    console.log(`Blocklist available at http://${HOST}:${PORT}/blocklist.txt`);
+    log.info(`Server started at http://${HOST}:${PORT}`);
+    for (const [route, routeFormat] of Object.entries(FORMAT_ROUTES)) {
+      if (outputFiles.has(routeFormat)) {
+        log.info(`${routeFormat} blocklist available at http://${HOST}:${PORT}${route}`);
+      }
+    }
+    for (const slug of listFiles.keys()) {
+      log.info(`List "${slug}" available at http://${HOST}:${PORT}/lists/${slug}.txt`);
+    }
+    log.info(`Compile history available at http://${HOST}:${PORT}/stats`);
+    log.info(`Published versions available at http://${HOST}:${PORT}/versions`);
+    log.info(`Metrics available at http://${HOST}:${PORT}/metrics`);
+    if (adminEnabled) {
+      log.info(`Admin API available at http://${HOST}:${PORT}/admin/`);
+    }
   });
   
   // Return the server instance
@@ -178,8 +629,8 @@ async function startServer() {
 // Start the server if this file is executed directly
 if (import.meta.url === `file://${process.argv[1]}`) {
   startServer().catch((error) => {
-    console.error("Failed to start server:", error);
-    process.exit(1);
+    log.error("Failed to start server", { error });
+    flushLogs().finally(() => process.exit(1));
   });
 }
 
@@ -0,0 +1,192 @@
+import crypto from "crypto";
+import fs from "fs";
+import { dirname, join, relative } from "path";
+import { securePath, secureWriteFile } from "./files.js";
+import { publishRelease } from "./store.js";
+import { logger } from "./logger.js";
+
+const log = logger.child({ component: "snapshots" });
+
+/**
+ * Directory holding one sub-directory per snapshot plus the manifest
+ */
+export const SNAPSHOT_DIR = join(process.cwd(), "snapshots");
+
+/**
+ * Number of snapshots kept when `snapshotRetention` is not set
+ */
+export const DEFAULT_SNAPSHOT_RETENTION = 10;
+
+const MANIFEST_FILE = join(SNAPSHOT_DIR, "manifest.json");
+
+/**
+ * Snapshot ids are the first 16 hex digits of the SHA-256 over every file in the release
+ */
+export const SNAPSHOT_ID = /^[0-9a-f]{16}$/;
+
+/**
+ * One published release
+ */
+export interface Snapshot {
+  id: string;
+  createdAt: string;
+  ruleCount: number;
+  /** Paths of the published files, relative to the working directory */
+  files: string[];
+  /** Relative path of the AdGuard format file served at `/versions/<id>.txt`, if it was published */
+  main: string | null;
+  bytes: number;
+}
+
+/**
+ * All kept snapshots, newest first, and the one currently published
+ */
+export interface SnapshotManifest {
+  current: string | null;
+  snapshots: Snapshot[];
+}
+
+/**
+ * Read the manifest, or an empty one before the first snapshot
+ */
+export function readManifest(): SnapshotManifest {
+  const filePath = securePath(MANIFEST_FILE);
+  if (!fs.existsSync(filePath)) {
+    return { current: null, snapshots: [] };
+  }
+  return JSON.parse(fs.readFileSync(filePath, "utf-8"));
+}
+
+function writeManifest(manifest: SnapshotManifest): void {
+  secureWriteFile(MANIFEST_FILE, JSON.stringify(manifest, null, 2) + "\n");
+}
+
+/** Header lines that change on every build, in any format's comment syntax */
+const VOLATILE_HEADER = /^\S+ (Last updated|Compilation time): .*$/gm;
+
+/** Serial of the RPZ SOA record, derived from the build time */
+const SOA_SERIAL = /^(@ IN SOA \S+ \S+ )\d+/gm;
+
+/**
+ * File content without the parts that differ between otherwise identical builds
+ */
+function stableContent(content: string): string {
+  return content.replace(VOLATILE_HEADER, "").replace(SOA_SERIAL, "$1");
+}
+
+/**
+ * Content address of a release: identical rules and headers give the same id,
+ * whatever the build time
+ */
+function snapshotId(files: Map<string, string>): string {
+  const hash = crypto.createHash("sha256");
+  for (const filePath of [...files.keys()].sort()) {
+    hash.update(relative(process.cwd(), filePath)).update("\0").update(stableContent(files.get(filePath)!)).update("\0");
+  }
+  return hash.digest("hex").slice(0, 16);
+}
+
+/**
+ * Absolute path of a file inside a snapshot
+ */
+export function snapshotFilePath(id: string, relativePath: string): string {
+  return securePath(join(SNAPSHOT_DIR, id, relativePath));
+}
+
+/**
+ * Look up a kept snapshot by id
+ */
+export function getSnapshot(id: string): Snapshot | null {
+  if (!SNAPSHOT_ID.test(id)) {
+    return null;
+  }
+  return readManifest().snapshots.find(snapshot => snapshot.id === id) ?? null;
+}
+
+/**
+ * Delete the oldest snapshots beyond the retention limit, never the published one
+ */
+function pruneSnapshots(manifest: SnapshotManifest, retention: number): void {
+  const kept: Snapshot[] = [];
+  for (const snapshot of manifest.snapshots) {
+    if (kept.length < retention || snapshot.id === manifest.current) {
+      kept.push(snapshot);
+      continue;
+    }
+    fs.rmSync(securePath(join(SNAPSHOT_DIR, snapshot.id)), { recursive: true, force: true });
+    log.debug(`Pruned snapshot ${snapshot.id} from ${snapshot.createdAt}`);
+  }
+  manifest.snapshots = kept;
+}
+
+/**
+ * Keep a copy of a published release and mark it as current.
+ * `files` maps absolute output paths to their content; `mainFile` is the AdGuard format output, if any.
+ */
+export function createSnapshot(
+  files: Map<string, string>,
+  mainFile: string | undefined,
+  ruleCount: number,
+  createdAt: Date,
+  retention = DEFAULT_SNAPSHOT_RETENTION
+): Snapshot {
+  const id = snapshotId(files);
+  const manifest = readManifest();
+  const existing = manifest.snapshots.find(snapshot => snapshot.id === id);
+
+  // The same content was published before; its copy is already on disk
+  const snapshot: Snapshot = existing ?? {
+    id,
+    createdAt: createdAt.toISOString(),
+    ruleCount,
+    files: [...files.keys()].map(filePath => relative(process.cwd(), filePath)),
+    main: mainFile && files.has(mainFile) ? relative(process.cwd(), mainFile) : null,
+    bytes: [...files.values()].reduce((total, content) => total + Buffer.byteLength(content, "utf-8"), 0)
+  };
+
+  if (!existing) {
+    for (const [filePath, content] of files) {
+      const target = snapshotFilePath(id, relative(process.cwd(), filePath));
+      fs.mkdirSync(dirname(target), { mode: 0o755, recursive: true });
+      secureWriteFile(target, content);
+    }
+  }
+
+  manifest.snapshots = [snapshot, ...manifest.snapshots.filter(entry => entry.id !== id)];
+  manifest.current = id;
+  pruneSnapshots(manifest, retention);
+  writeManifest(manifest);
+  log.debug(`${existing ? 'Re-published' : 'Saved'} snapshot ${id} (${snapshot.files.length} files)`);
+  return snapshot;
+}
+
+/**
+ * Publish an earlier snapshot again.
+ * Every file is read before any is replaced, each replacement is an atomic rename, and an
+ * in-process server swaps all files in at once.
+ */
+export function rollbackTo(id: string): Snapshot {
+  const snapshot = getSnapshot(id);
+  if (!snapshot) {
+    throw new Error(`Unknown snapshot: ${id}`);
+  }
+
+  const files = new Map<string, string>();
+  for (const relativePath of snapshot.files) {
+    files.set(securePath(relativePath), fs.readFileSync(snapshotFilePath(id, relativePath), "utf-8"));
+  }
+
+  for (const [filePath, content] of files) {
+    fs.mkdirSync(dirname(filePath), { mode: 0o755, recursive: true });
+    secureWriteFile(filePath, content);
+  }
+
+  const manifest = readManifest();
+  manifest.current = id;
+  writeManifest(manifest);
+
+  // Date the release now, not at the snapshot's creation, so If-Modified-Since cannot hide the change
+  publishRelease(files, new Date());
+  log.info(`Rolled back to snapshot ${id} from ${snapshot.createdAt}`);
+  return snapshot;
+}
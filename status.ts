@@ -0,0 +1,138 @@
+/**
+ * How a source ended up in the last compile
+ */
+export type SourceStatus = "fetched" | "cached" | "failed";
+
+/**
+ * Lines removed by one step of the pipeline; negative when a step adds lines
+ */
+export interface StageCount {
+  stage: string;
+  removed: number;
+}
+
+/**
+ * Lines a source's validation rejected for one reason, with a few of them as samples
+ */
+export interface RejectionCount {
+  reason: string;
+  count: number;
+  samples: string[];
+}
+
+/**
+ * Result of one source in a compile
+ */
+export interface SourceReport {
+  name: string;
+  url: string;
+  /** `cached` means the cached copy was used without downloading (304 or offline) */
+  status: SourceStatus;
+  durationMs: number;
+  /** Size of the downloaded (or cached) content */
+  bytes: number;
+  /** Non-empty lines in the content */
+  lines: number;
+  /** Rules contributed after the source's parser, transformations and filters */
+  rules: number;
+  /** Lines removed by the source's parser, each of its transformations and its filters */
+  stages: StageCount[];
+  /** Lines rejected by validation, grouped by reason */
+  rejected: RejectionCount[];
+  error?: string;
+  /** When a failed source fell back to its cached copy, the time that copy was fetched */
+  cachedAt?: string;
+}
+
+/**
+ * Build-level guardrails that tripped in a compile
+ */
+export interface GuardrailReport {
+  /** Reason for each tripped guardrail */
+  tripped: string[];
+  /** Whether the build was published anyway */
+  overridden: boolean;
+}
+
+/**
+ * Summary of one compile run
+ */
+export interface CompileReport {
+  /** Id attached to every log line of the run */
+  runId: string;
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  success: boolean;
+  offline: boolean;
+  error?: string;
+  sources: SourceReport[];
+  /** Lines removed by each list-level step of the default list */
+  stages: StageCount[];
+  guardrails: GuardrailReport;
+  /** Id of the snapshot the published build was saved as */
+  snapshot: string | null;
+  /** Rules in the default list, null if the compile failed before building it */
+  ruleCount: number | null;
+  /** Rules in each named list, keyed by slug */
+  lists: Record<string, number>;
+}
+
+/**
+ * Health of a source across compiles in this process
+ */
+export interface SourceHealth {
+  name: string;
+  url: string;
+  lastStatus: SourceStatus;
+  lastAttemptAt: string;
+  lastSuccessAt: string | null;
+  consecutiveFailures: number;
+  rules: number;
+  durationMs: number;
+  lastError?: string;
+}
+
+let lastReport: CompileReport | null = null;
+
+/**
+ * Source health keyed by URL
+ */
+const sourceHealth = new Map<string, SourceHealth>();
+
+/**
+ * Record the report of a finished compile and update the health of every source it attempted
+ */
+export function recordCompileReport(report: CompileReport): void {
+  lastReport = report;
+
+  for (const source of report.sources) {
+    const previous = sourceHealth.get(source.url);
+    const failed = source.status === "failed";
+    sourceHealth.set(source.url, {
+      name: source.name,
+      url: source.url,
+      lastStatus: source.status,
+      lastAttemptAt: report.startedAt,
+      lastSuccessAt: failed ? previous?.lastSuccessAt ?? null : report.startedAt,
+      consecutiveFailures: failed ? (previous?.consecutiveFailures ?? 0) + 1 : 0,
+      rules: source.rules,
+      durationMs: source.durationMs,
+      lastError: source.error
+    });
+  }
+}
+
+/**
+ * Report of the most recent compile in this process
+ */
+export function getLastCompileReport(): CompileReport | null {
+  return lastReport;
+}
+
+/**
+ * Health of a source, if it was attempted by a compile in this process
+ */
+export function getSourceHealth(url: string): SourceHealth | null {
+  return sourceHealth.get(url) ?? null;
+}
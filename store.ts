@@ -0,0 +1,61 @@
+import { EventEmitter } from "events";
+import { logger } from "./logger.js";
+
+const log = logger.child({ component: "store" });
+
+/**
+ * The files produced by one successful compile, keyed by absolute output path
+ */
+export interface CompiledRelease {
+  files: Map<string, string>;
+  generatedAt: Date;
+  /** Increases with every release published in this process, so a later one can always be told apart */
+  sequence: number;
+}
+
+/**
+ * Listener notified after every successful compile
+ */
+export type ReleaseListener = (release: CompiledRelease) => void | Promise<void>;
+
+const emitter = new EventEmitter();
+
+/**
+ * Most recently published release, so late subscribers can catch up
+ */
+let latestRelease: CompiledRelease | null = null;
+
+/**
+ * Sequence number of the last published release
+ */
+let lastSequence = 0;
+
+/**
+ * Publish the output of a successful compile to every subscriber in this process
+ */
+export function publishRelease(files: Map<string, string>, generatedAt: Date): void {
+  const release: CompiledRelease = { files, generatedAt, sequence: ++lastSequence };
+  latestRelease = release;
+  emitter.emit("release", release);
+}
+
+/**
+ * Subscribe to compiled releases; returns a function that removes the listener
+ */
+export function onRelease(listener: ReleaseListener): () => void {
+  // Listener errors must never fail the compile that published the release
+  const wrapped = (release: CompiledRelease) => {
+    Promise.resolve()
+      .then(() => listener(release))
+      .catch(error => log.error("Failed to handle compiled release", { error }));
+  };
+  emitter.on("release", wrapped);
+  return () => emitter.off("release", wrapped);
+}
+
+/**
+ * The latest release published in this process, if any
+ */
+export function getLatestRelease(): CompiledRelease | null {
+  return latestRelease;
+}
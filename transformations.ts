@@ -0,0 +1,602 @@
+import net from "net";
+import { domainToASCII } from "url";
+import type { Transformation } from "@adguard/hostlist-compiler";
+import { DomainTrie } from "./trie.js";
+import type { RejectionCount, StageCount } from "./status.js";
+import { logger } from "./logger.js";
+
+const log = logger.child({ component: "transformations" });
+
+/**
+ * Every supported transformation, in the order they are applied.
+ * Like the AdGuard hostlist compiler, the order in config.json does not matter.
+ */
+export const TRANSFORMATIONS: readonly Transformation[] = [
+  "ConvertToAscii",
+  "TrimLines",
+  "RemoveComments",
+  "Compress",
+  "RemoveModifiers",
+  "InvertAllow",
+  "Validate",
+  "ValidateAllowIp",
+  "Deduplicate",
+  "RemoveEmptyLines",
+  "InsertFinalNewLine"
+];
+
+/**
+ * Addresses that hosts files use to mean "block this domain"
+ */
+export const BLOCKING_ADDRESSES = new Set([
+  "0.0.0.0",
+  "127.0.0.1",
+  "::",
+  "::0",
+  "0:0:0:0:0:0:0:0"
+]);
+
+/**
+ * Modifiers that AdGuard Home understands in DNS filtering rules
+ */
+const SUPPORTED_MODIFIERS = new Set([
+  "important",
+  "badfilter",
+  "client",
+  "ctag",
+  "denyallow",
+  "dnstype",
+  "dnsrewrite"
+]);
+
+/**
+ * Browser-only modifiers stripped by RemoveModifiers
+ */
+const REMOVABLE_MODIFIERS = new Set([
+  "third-party",
+  "3p",
+  "document",
+  "doc",
+  "all",
+  "popup",
+  "network"
+]);
+
+/**
+ * Hostname label, allowing underscores as many real lists do
+ */
+const LABEL_REGEX = /^[a-z0-9_]([a-z0-9_-]{0,61}[a-z0-9_])?$/i;
+
+/**
+ * Top-level domain: letters only, or an internationalized TLD in punycode
+ */
+const TLD_REGEX = /^(?:[a-z]{2,63}|xn--[a-z0-9-]{1,59})$/;
+
+/**
+ * Separators of element hiding, CSS, scriptlet and HTML filtering rules, which only a browser can apply
+ */
+const COSMETIC_SEPARATOR = /#@?[?$%]{0,2}#|\$@?\$/;
+
+/**
+ * Modifiers that only make sense with a value, e.g. `$client=192.168.0.1`
+ */
+const VALUE_MODIFIERS = new Set(["client", "ctag", "denyallow", "dnstype"]);
+
+/**
+ * Number of rejected lines kept as samples for each rejection reason
+ */
+const REJECTION_SAMPLES = 5;
+
+/**
+ * Why a rule was rejected by validation
+ */
+export type RejectionReason =
+  | "cosmetic rule"
+  | "URL or path"
+  | "unsupported modifier"
+  | "invalid modifier value"
+  | "invalid regex"
+  | "missing hostname"
+  | "IP address"
+  | "top-level domain only"
+  | "invalid hostname"
+  | "invalid TLD"
+  | "invalid IDN";
+
+/**
+ * Outcome of validating one rule: the rule with its hostnames in punycode, or why it was rejected
+ */
+export type RuleValidation = { valid: true; rule: string } | { valid: false; reason: RejectionReason };
+
+/**
+ * Rules that passed validation, and what was rejected grouped by reason
+ */
+export interface ValidationResult {
+  rules: string[];
+  rejected: RejectionCount[];
+}
+
+/**
+ * How strict validation is
+ */
+export interface ValidationOptions {
+  /** Accept rules for bare IP addresses */
+  allowIp: boolean;
+  /** Accept browser-only modifiers that RemoveModifiers strips, such as `$third-party` */
+  allowRemovableModifiers?: boolean;
+}
+
+/**
+ * Check whether a string is one of the known transformation names
+ */
+export function isTransformation(value: string): value is Transformation {
+  return (TRANSFORMATIONS as readonly string[]).includes(value);
+}
+
+/**
+ * Whether a DNS blocker can use a modifier, either as is or once RemoveModifiers strips it
+ */
+export function isDnsModifier(modifier: string): boolean {
+  const name = modifier.split("=")[0].replace(/^~/, "").toLowerCase();
+  return SUPPORTED_MODIFIERS.has(name) || REMOVABLE_MODIFIERS.has(name);
+}
+
+/**
+ * Whether a line is a cosmetic or HTML filtering rule rather than a comment or network rule
+ */
+export function isCosmeticRule(line: string): boolean {
+  const trimmed = line.trim();
+  if (trimmed.startsWith("!") || /^#(?![@?$%#])/.test(trimmed) || /^\/.+\/(\$.*)?$/.test(trimmed)) {
+    return false;
+  }
+  return COSMETIC_SEPARATOR.test(trimmed);
+}
+
+/**
+ * Check whether a line is a comment in either adblock or hosts syntax
+ */
+export function isComment(line: string): boolean {
+  const trimmed = line.trim();
+  return trimmed.startsWith("!") || trimmed.startsWith("#");
+}
+
+/**
+ * Validate a hostname, optionally allowing `*` wildcards in labels
+ */
+export function isValidHostname(hostname: string, allowWildcard = false): boolean {
+  if (hostname.length === 0 || hostname.length > 253) {
+    return false;
+  }
+
+  const withoutTrailingDot = hostname.endsWith(".") ? hostname.slice(0, -1) : hostname;
+  return withoutTrailingDot.split(".").every(label => {
+    if (allowWildcard && label.includes("*")) {
+      return label.replace(/\*/g, "a").length <= 63 && /^[a-z0-9_*-]+$/i.test(label);
+    }
+    return LABEL_REGEX.test(label);
+  });
+}
+
+/**
+ * Split a hosts-style line into its IP address and hostnames, or null if it is not one
+ */
+function parseHostsRule(line: string): { ip: string; hostnames: string[] } | null {
+  const withoutComment = line.split("#")[0].trim();
+  const parts = withoutComment.split(/\s+/);
+  if (parts.length < 2 || net.isIP(parts[0]) === 0) {
+    return null;
+  }
+  return { ip: parts[0], hostnames: parts.slice(1) };
+}
+
+/**
+ * Split an adblock-style rule into its pattern and modifier list
+ */
+export function splitModifiers(rule: string): { pattern: string; modifiers: string[] } {
+  // A regex pattern may itself contain `$`, so only look after its closing slash
+  const searchFrom = rule.startsWith("/") ? Math.max(rule.lastIndexOf("/"), 0) : 0;
+  const dollarIndex = rule.indexOf("$", searchFrom);
+  if (dollarIndex === -1) {
+    return { pattern: rule, modifiers: [] };
+  }
+  return {
+    pattern: rule.slice(0, dollarIndex),
+    modifiers: rule.slice(dollarIndex + 1).split(",").filter(Boolean)
+  };
+}
+
+/**
+ * Extract the plain domain a rule blocks, if it is a simple `||domain^` or bare domain
+ */
+function extractBlockedDomain(rule: string): string | null {
+  const match = /^\|\|([a-z0-9_.-]+)\^$/i.exec(rule);
+  if (match) {
+    return match[1].toLowerCase();
+  }
+
+  return isValidHostname(rule) && rule.includes(".") ? rule.toLowerCase() : null;
+}
+
+/**
+ * Extract the hostname a host-based rule targets, including exceptions and rules with modifiers
+ */
+export function ruleHostname(rule: string): string | null {
+  const trimmed = rule.trim();
+  if (trimmed.length === 0 || isComment(trimmed)) {
+    return null;
+  }
+
+  const hosts = parseHostsRule(trimmed);
+  if (hosts) {
+    return hosts.hostnames.length === 1 ? hosts.hostnames[0].toLowerCase() : null;
+  }
+
+  const unprefixed = trimmed.startsWith("@@") ? trimmed.slice(2) : trimmed;
+  const { pattern } = splitModifiers(unprefixed);
+  const match = /^(?:\|\|)?([a-z0-9_.-]+)\^?\|?$/i.exec(pattern);
+  return match && match[1].includes(".") ? match[1].toLowerCase() : null;
+}
+
+/**
+ * Convert internationalized hostnames in a rule to punycode
+ */
+function convertToAscii(rules: string[]): string[] {
+  return rules.map(rule => {
+    if (!/[^\x00-\x7F]/.test(rule) || isComment(rule)) {
+      return rule;
+    }
+    return rule.replace(/[^\s|^$/@,=#]+/g, token => {
+      if (!/[^\x00-\x7F]/.test(token)) {
+        return token;
+      }
+      return domainToASCII(token) || token;
+    });
+  });
+}
+
+/**
+ * Result of domain-aware deduplication
+ */
+export interface DomainDeduplicationResult {
+  rules: string[];
+  removed: number;
+}
+
+/**
+ * Domains blocked by a plain rule without modifiers, or null for any other kind of rule.
+ * Rules for IP addresses are not domains, so they are null too.
+ */
+export function plainBlockedDomains(rule: string): string[] | null {
+  const hosts = parseHostsRule(rule);
+  if (hosts) {
+    if (!BLOCKING_ADDRESSES.has(hosts.ip) || !hosts.hostnames.every(hostname => isValidHostname(hostname) && net.isIP(hostname) === 0)) {
+      return null;
+    }
+    return hosts.hostnames.map(hostname => hostname.toLowerCase().replace(/\.$/, ""));
+  }
+
+  const domain = extractBlockedDomain(rule);
+  return domain && isValidHostname(domain) && net.isIP(domain) === 0 ? [domain.replace(/\.$/, "")] : null;
+}
+
+/**
+ * Normalize plain blocking rules to `||domain^` and drop those already covered,
+ * either by the same domain in another syntax or by a parent `||domain^` rule.
+ * Rules with modifiers, exceptions and regex rules are kept as they are, apart
+ * from exact duplicates. With `keepCovered`, subdomains under a blocked parent are
+ * kept, for formats that only match exact names.
+ */
+export function deduplicateDomains(rules: string[], keepCovered = false): DomainDeduplicationResult {
+  // Collect every blocked domain first so a parent listed later still covers its subdomains
+  const blocked = new DomainTrie();
+  for (const rule of rules) {
+    if (isComment(rule)) {
+      continue;
+    }
+    for (const domain of plainBlockedDomains(rule.trim()) ?? []) {
+      // TLD-only rules are left for Validate to reject rather than swallowing everything below them
+      if (domain.includes(".")) {
+        blocked.add(domain);
+      }
+    }
+  }
+
+  const emitted = new Set<string>();
+  const seenOther = new Set<string>();
+  const result: DomainDeduplicationResult = { rules: [], removed: 0 };
+
+  for (const rule of rules) {
+    const trimmed = rule.trim();
+    if (trimmed.length === 0 || isComment(trimmed)) {
+      result.rules.push(rule);
+      continue;
+    }
+
+    const domains = plainBlockedDomains(trimmed);
+    if (!domains) {
+      if (seenOther.has(trimmed)) {
+        result.removed++;
+      } else {
+        seenOther.add(trimmed);
+        result.rules.push(rule);
+      }
+      continue;
+    }
+
+    for (const domain of domains) {
+      if (emitted.has(domain) || (!keepCovered && blocked.hasParentOf(domain))) {
+        result.removed++;
+        continue;
+      }
+      emitted.add(domain);
+      result.rules.push(`||${domain}^`);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Convert hosts and bare-domain rules to `||domain^` and drop rules covered by a parent domain
+ */
+function compress(rules: string[]): string[] {
+  return deduplicateDomains(rules).rules;
+}
+
+/**
+ * Strip modifiers that have no meaning for DNS filtering
+ */
+function removeModifiers(rules: string[]): string[] {
+  return rules.map(rule => {
+    if (isComment(rule) || parseHostsRule(rule)) {
+      return rule;
+    }
+    const { pattern, modifiers } = splitModifiers(rule);
+    if (modifiers.length === 0) {
+      return rule;
+    }
+    const kept = modifiers.filter(modifier => !REMOVABLE_MODIFIERS.has(modifier.replace(/^~/, "").toLowerCase()));
+    return kept.length > 0 ? `${pattern}$${kept.join(",")}` : pattern;
+  });
+}
+
+/**
+ * Turn blocking rules into allowlist (`@@`) rules
+ */
+function invertAllow(rules: string[]): string[] {
+  const inverted: string[] = [];
+  for (const rule of rules) {
+    const trimmed = rule.trim();
+    if (trimmed.length === 0 || isComment(trimmed) || trimmed.startsWith("@@")) {
+      inverted.push(rule);
+      continue;
+    }
+
+    const hosts = parseHostsRule(trimmed);
+    if (hosts) {
+      inverted.push(...hosts.hostnames.map(hostname => `@@||${hostname}^`));
+      continue;
+    }
+
+    inverted.push(`@@${trimmed}`);
+  }
+  return inverted;
+}
+
+/**
+ * Check a hostname's labels and TLD, converting internationalized names to punycode
+ */
+function validateHostname(hostname: string, allowWildcard: boolean): RuleValidation {
+  let ascii = hostname.toLowerCase().replace(/\.$/, "");
+  if (/[^\x00-\x7F]/.test(ascii) || /(^|\.)xn--/.test(ascii)) {
+    // Invalid punycode and names that cannot be encoded come back empty
+    ascii = domainToASCII(ascii);
+    if (ascii.length === 0) {
+      return { valid: false, reason: "invalid IDN" };
+    }
+  }
+
+  if (!isValidHostname(ascii, allowWildcard)) {
+    return { valid: false, reason: "invalid hostname" };
+  }
+  const labels = ascii.split(".");
+  // A rule without a dot would block an entire TLD
+  if (labels.length < 2 || labels.every(label => /^\**$/.test(label))) {
+    return { valid: false, reason: "top-level domain only" };
+  }
+  const tld = labels[labels.length - 1];
+  if (!tld.includes("*") && !TLD_REGEX.test(tld)) {
+    return { valid: false, reason: "invalid TLD" };
+  }
+  return { valid: true, rule: ascii };
+}
+
+/**
+ * Check the modifiers of a rule against the DNS modifiers AdGuard Home supports
+ */
+function validateModifiers(modifiers: string[], options: ValidationOptions): RejectionReason | null {
+  for (const modifier of modifiers) {
+    const [rawName, ...valueParts] = modifier.split("=");
+    const name = rawName.replace(/^~/, "").toLowerCase();
+    const value = valueParts.join("=");
+    if (!SUPPORTED_MODIFIERS.has(name)) {
+      if (options.allowRemovableModifiers && REMOVABLE_MODIFIERS.has(name)) {
+        continue;
+      }
+      return "unsupported modifier";
+    }
+    if (VALUE_MODIFIERS.has(name) && value.length === 0) {
+      return "invalid modifier value";
+    }
+    if ((name === "important" || name === "badfilter") && valueParts.length > 0) {
+      return "invalid modifier value";
+    }
+    if (name === "dnstype" && !value.split("|").every(type => /^~?[a-z][a-z0-9]*$/i.test(type))) {
+      return "invalid modifier value";
+    }
+    if (name === "denyallow" && !value.split("|").every(domain => validateHostname(domain, false).valid)) {
+      return "invalid modifier value";
+    }
+  }
+  return null;
+}
+
+/**
+ * Validate a rule against the AdGuard DNS filtering syntax: hosts entries, `||domain^`-style
+ * patterns with DNS modifiers, regex rules and `@@` exceptions. Comments and empty lines are valid.
+ */
+export function validateRule(rule: string, options: ValidationOptions): RuleValidation {
+  const trimmed = rule.trim();
+  if (isCosmeticRule(trimmed)) {
+    return { valid: false, reason: "cosmetic rule" };
+  }
+  if (trimmed.length === 0 || isComment(trimmed)) {
+    return { valid: true, rule };
+  }
+
+  const hosts = parseHostsRule(trimmed);
+  if (hosts) {
+    const hostnames: string[] = [];
+    for (const hostname of hosts.hostnames) {
+      const checked = validateHostname(hostname, false);
+      if (!checked.valid) {
+        return checked;
+      }
+      hostnames.push(checked.rule);
+    }
+    const changed = hostnames.some((hostname, i) => hostname !== hosts.hostnames[i]);
+    return { valid: true, rule: changed ? `${hosts.ip} ${hostnames.join(" ")}` : rule };
+  }
+
+  const prefix = trimmed.startsWith("@@") ? "@@" : "";
+  const { pattern, modifiers } = splitModifiers(trimmed.slice(prefix.length));
+  const modifierProblem = validateModifiers(modifiers, options);
+  if (modifierProblem) {
+    return { valid: false, reason: modifierProblem };
+  }
+
+  if (pattern.length > 2 && pattern.startsWith("/") && pattern.endsWith("/")) {
+    try {
+      new RegExp(pattern.slice(1, -1));
+      return { valid: true, rule };
+    } catch {
+      return { valid: false, reason: "invalid regex" };
+    }
+  }
+
+  const start = pattern.startsWith("||") ? 2 : pattern.startsWith("|") ? 1 : 0;
+  const suffix = /\^\|?$|\|$/.exec(pattern)?.[0] ?? "";
+  const hostname = pattern.slice(start, pattern.length - suffix.length);
+  if (hostname.length === 0) {
+    return { valid: false, reason: "missing hostname" };
+  }
+  if (net.isIP(hostname) !== 0) {
+    return options.allowIp ? { valid: true, rule } : { valid: false, reason: "IP address" };
+  }
+  if (/[/?=&:^|%]/.test(hostname)) {
+    return { valid: false, reason: "URL or path" };
+  }
+
+  const checked = validateHostname(hostname, true);
+  if (!checked.valid) {
+    return checked;
+  }
+  if (checked.rule === hostname) {
+    return { valid: true, rule };
+  }
+  const rebuilt = `${prefix}${pattern.slice(0, start)}${checked.rule}${suffix}`;
+  return { valid: true, rule: modifiers.length > 0 ? `${rebuilt}$${modifiers.join(",")}` : rebuilt };
+}
+
+/**
+ * Keep the valid rules, in punycode, and group the rejected ones by reason
+ */
+export function validateRules(rules: string[], options: ValidationOptions): ValidationResult {
+  const result: ValidationResult = { rules: [], rejected: [] };
+  const byReason = new Map<RejectionReason, RejectionCount>();
+  for (const rule of rules) {
+    const checked = validateRule(rule, options);
+    if (checked.valid) {
+      result.rules.push(checked.rule);
+      continue;
+    }
+    let rejection = byReason.get(checked.reason);
+    if (!rejection) {
+      rejection = { reason: checked.reason, count: 0, samples: [] };
+      byReason.set(checked.reason, rejection);
+      result.rejected.push(rejection);
+    }
+    rejection.count++;
+    if (rejection.samples.length < REJECTION_SAMPLES) {
+      rejection.samples.push(rule.trim());
+    }
+  }
+  return result;
+}
+
+/**
+ * Remove exact duplicates, keeping the first occurrence and leaving comments alone
+ */
+function deduplicate(rules: string[]): string[] {
+  const seen = new Set<string>();
+  return rules.filter(rule => {
+    if (rule.trim().length === 0 || isComment(rule)) {
+      return true;
+    }
+    if (seen.has(rule)) {
+      return false;
+    }
+    seen.add(rule);
+    return true;
+  });
+}
+
+/**
+ * Apply a single transformation to a list of rules
+ */
+function applyTransformation(rules: string[], transformation: Transformation): string[] {
+  switch (transformation) {
+    case "ConvertToAscii":
+      return convertToAscii(rules);
+    case "TrimLines":
+      return rules.map(rule => rule.trim());
+    case "RemoveComments":
+      return rules.filter(rule => !isComment(rule));
+    case "Compress":
+      return compress(rules);
+    case "RemoveModifiers":
+      return removeModifiers(rules);
+    case "InvertAllow":
+      return invertAllow(rules);
+    case "Validate":
+      return validateRules(rules, { allowIp: false }).rules;
+    case "ValidateAllowIp":
+      return validateRules(rules, { allowIp: true }).rules;
+    case "Deduplicate":
+      return deduplicate(rules);
+    case "RemoveEmptyLines":
+      return rules.filter(rule => rule.trim().length > 0);
+    case "InsertFinalNewLine":
+      return rules.length > 0 && rules[rules.length - 1] === "" ? rules : [...rules, ""];
+  }
+}
+
+/**
+ * Apply a set of transformations to a list of rules in the canonical order
+ */
+export function applyTransformations(rules: string[], transformations: Transformation[] = [], stages?: StageCount[]): string[] {
+  const requested = new Set(transformations);
+  let result = rules;
+
+  for (const transformation of TRANSFORMATIONS) {
+    if (!requested.has(transformation)) {
+      continue;
+    }
+    const before = result.length;
+    result = applyTransformation(result, transformation);
+    log.debug(`${transformation}: ${before} -> ${result.length} lines`);
+    stages?.push({ stage: transformation, removed: before - result.length });
+  }
+
+  return result;
+}
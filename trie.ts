@@ -0,0 +1,87 @@
+/**
+ * A node in the domain trie; children are created lazily since most nodes are leaves
+ */
+interface TrieNode {
+  children?: Map<string, TrieNode>;
+  terminal: boolean;
+}
+
+/**
+ * Trie of domains keyed by label from the TLD down, e.g. `com` -> `example` -> `ads`.
+ * Looking up whether a parent of a domain is present costs one step per label.
+ */
+export class DomainTrie {
+  private readonly root: TrieNode = { terminal: false };
+  private count = 0;
+
+  /**
+   * Number of domains stored in the trie
+   */
+  get size(): number {
+    return this.count;
+  }
+
+  /**
+   * Add a domain, returning false if it was already present
+   */
+  add(domain: string): boolean {
+    const labels = domain.split(".");
+    let node = this.root;
+    for (let i = labels.length - 1; i >= 0; i--) {
+      if (!node.children) {
+        node.children = new Map();
+      }
+      let child = node.children.get(labels[i]);
+      if (!child) {
+        child = { terminal: false };
+        node.children.set(labels[i], child);
+      }
+      node = child;
+    }
+
+    if (node.terminal) {
+      return false;
+    }
+    node.terminal = true;
+    this.count++;
+    return true;
+  }
+
+  /**
+   * Check whether the exact domain is present
+   */
+  has(domain: string): boolean {
+    const node = this.find(domain);
+    return node !== undefined && node.terminal;
+  }
+
+  /**
+   * Check whether a strict parent of the domain is present, e.g. `example.com` for `ads.example.com`
+   */
+  hasParentOf(domain: string): boolean {
+    const labels = domain.split(".");
+    let node: TrieNode | undefined = this.root;
+    for (let i = labels.length - 1; i > 0; i--) {
+      node = node.children?.get(labels[i]);
+      if (!node) {
+        return false;
+      }
+      if (node.terminal) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Walk down to the node for a domain
+   */
+  private find(domain: string): TrieNode | undefined {
+    const labels = domain.split(".");
+    let node: TrieNode | undefined = this.root;
+    for (let i = labels.length - 1; i >= 0 && node; i--) {
+      node = node.children?.get(labels[i]);
+    }
+    return node;
+  }
+}
@@ -0,0 +1,159 @@
+import crypto from "crypto";
+import zlib from "zlib";
+import { promisify } from "util";
+import { ServerResponse } from "http";
+
+const gzip = promisify(zlib.gzip);
+const brotliCompress = promisify(zlib.brotliCompress);
+
+/**
+ * Chunk size used when streaming a prepared body to a client
+ */
+const STREAM_CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Content encodings the server can respond with
+ */
+export type Encoding = "br" | "gzip" | "identity";
+
+/**
+ * A file prepared once for serving: the raw body, its compressed variants and a strong ETag
+ */
+export interface PreparedFile {
+  body: Buffer;
+  gzip: Buffer;
+  brotli: Buffer;
+  /** Hex SHA-256 of the body, used to build per-encoding ETags */
+  hash: string;
+  lastModified: Date;
+}
+
+/**
+ * Hash and compress a file body so every later request can reuse the result
+ */
+export async function prepareFile(body: Buffer, lastModified: Date): Promise<PreparedFile> {
+  const [gzipped, brotli] = await Promise.all([
+    gzip(body, { level: zlib.constants.Z_BEST_COMPRESSION }),
+    brotliCompress(body, {
+      params: {
+        [zlib.constants.BROTLI_PARAM_MODE]: zlib.constants.BROTLI_MODE_TEXT,
+        [zlib.constants.BROTLI_PARAM_QUALITY]: 9,
+        [zlib.constants.BROTLI_PARAM_SIZE_HINT]: body.length
+      }
+    })
+  ]);
+
+  return {
+    body,
+    gzip: gzipped,
+    brotli,
+    hash: crypto.createHash("sha256").update(body).digest("hex"),
+    lastModified
+  };
+}
+
+/**
+ * Body bytes for an encoding
+ */
+export function encodedBody(file: PreparedFile, encoding: Encoding): Buffer {
+  switch (encoding) {
+    case "br":
+      return file.brotli;
+    case "gzip":
+      return file.gzip;
+    case "identity":
+      return file.body;
+  }
+}
+
+/**
+ * Strong ETag for one encoding; each representation needs its own tag
+ */
+export function encodedEtag(file: PreparedFile, encoding: Encoding): string {
+  return encoding === "identity" ? `"${file.hash}"` : `"${file.hash}-${encoding}"`;
+}
+
+/**
+ * Pick the best encoding the client accepts, honouring q-values
+ */
+export function negotiateEncoding(acceptEncoding: string | undefined): Encoding {
+  if (!acceptEncoding) {
+    return "identity";
+  }
+
+  const qualities = new Map<string, number>();
+  for (const part of acceptEncoding.split(",")) {
+    const [name, ...params] = part.trim().toLowerCase().split(";");
+    const qParam = params.map(param => param.trim()).find(param => param.startsWith("q="));
+    const quality = qParam ? Number(qParam.slice(2)) : 1;
+    qualities.set(name, Number.isFinite(quality) ? quality : 0);
+  }
+
+  const wildcard = qualities.get("*");
+  for (const encoding of ["br", "gzip"] as const) {
+    const quality = qualities.get(encoding) ?? wildcard ?? 0;
+    if (quality > 0) {
+      return encoding;
+    }
+  }
+  return "identity";
+}
+
+/**
+ * Parse a single-range `Range` header.
+ * Returns null when the header should be ignored (absent, malformed or multi-range).
+ */
+export function parseRange(rangeHeader: string | undefined, size: number): { start: number; end: number } | "unsatisfiable" | null {
+  if (!rangeHeader) {
+    return null;
+  }
+
+  const match = /^bytes=(\d*)-(\d*)$/.exec(rangeHeader.trim());
+  if (!match || (match[1] === "" && match[2] === "")) {
+    return null;
+  }
+
+  let start: number;
+  let end: number;
+  if (match[1] === "") {
+    // Suffix range: the last N bytes
+    const suffixLength = Number(match[2]);
+    if (suffixLength === 0) {
+      return "unsatisfiable";
+    }
+    start = Math.max(0, size - suffixLength);
+    end = size - 1;
+  } else {
+    start = Number(match[1]);
+    end = match[2] === "" ? size - 1 : Math.min(Number(match[2]), size - 1);
+  }
+
+  if (start >= size || start > end) {
+    return "unsatisfiable";
+  }
+  return { start, end };
+}
+
+/**
+ * Stream a buffer to the response in chunks, respecting backpressure
+ */
+export async function streamBuffer(res: ServerResponse, buffer: Buffer): Promise<void> {
+  for (let offset = 0; offset < buffer.length; offset += STREAM_CHUNK_SIZE) {
+    if (res.destroyed) {
+      return;
+    }
+    const chunk = buffer.subarray(offset, offset + STREAM_CHUNK_SIZE);
+    if (!res.write(chunk)) {
+      await new Promise<void>(resolve => {
+        const done = () => {
+          res.off("drain", done);
+          res.off("close", done);
+          resolve();
+        };
+        res.on("drain", done);
+        res.on("close", done);
+      });
+    }
+  }
+  res.end();
+}